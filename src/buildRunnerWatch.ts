@@ -0,0 +1,154 @@
+import { ChildProcessWithoutNullStreams, spawn } from "child_process";
+
+export type BuildRunnerState = "starting" | "building" | "succeeded" | "failed" | "exited";
+
+export type BuildRunnerWatch = {
+  readonly state: BuildRunnerState;
+  /** `[SEVERE]` messages of the current or last build. */
+  readonly errors: string[];
+  /**
+   * Resolves once the generator is idle: true when the last build succeeded (or the watcher is gone),
+   * false when it failed. `graceMs` waits that long for build_runner to start a build for a save of one
+   * of its inputs that just happened.
+   */
+  waitForBuild(graceMs: number): Promise<boolean>;
+  dispose(): void;
+};
+
+type BuildRunnerWatchHandlers = {
+  log: (level: "error" | "build", line: string) => void;
+  onStateChanged: (state: BuildRunnerState, errors: string[]) => void;
+};
+
+const BUILD_TIMEOUT_MS = 120000;
+const BUILD_STARTED = /^(?:\[INFO\]\s*)?(?:Starting Build|Building,)/;
+// Older releases print "Succeeded after 1.2s", newer ones "Built with build_runner in 1s".
+const BUILD_SUCCEEDED = /Succeeded after|^Built with build_runner/;
+const BUILD_FAILED = /Failed after|^Failed to build with build_runner/;
+const SEVERE_LINE = /^\[(?:SEVERE|ERROR)\]/;
+const LOG_LEVEL_PREFIX = /^\[[A-Z]+\]/;
+const ANSI_ESCAPE = /\u001b\[[0-9;]*m/g;
+
+/** Runs `dart run build_runner watch --delete-conflicting-outputs` in the app folder and tracks its builds. */
+export function startBuildRunnerWatch(
+  options: { folder: string; env?: Record<string, string> },
+  handlers: BuildRunnerWatchHandlers
+): BuildRunnerWatch {
+  const child: ChildProcessWithoutNullStreams = spawn(
+    "dart",
+    ["run", "build_runner", "watch", "--delete-conflicting-outputs"],
+    { cwd: options.folder, env: { ...process.env, ...(options.env ?? {}) }, shell: false }
+  );
+  let state: BuildRunnerState = "starting";
+  let errors: string[] = [];
+  let inSevereBlock = false;
+  let exited = false;
+  const listeners = new Set<(next: BuildRunnerState) => void>();
+
+  const setState = (next: BuildRunnerState): void => {
+    if (next === "building") {
+      errors = [];
+    }
+    state = next;
+    exited = next === "exited";
+    handlers.onStateChanged(state, errors);
+    for (const listener of Array.from(listeners)) {
+      listener(next);
+    }
+  };
+
+  const handleLine = (rawLine: string): void => {
+    const line = rawLine.replace(ANSI_ESCAPE, "").trimEnd();
+    if (!line.trim()) {
+      return;
+    }
+    if (SEVERE_LINE.test(line) && !BUILD_FAILED.test(line)) {
+      inSevereBlock = true;
+      errors.push(line.replace(LOG_LEVEL_PREFIX, "").trim());
+    } else if (LOG_LEVEL_PREFIX.test(line) || BUILD_FAILED.test(line)) {
+      inSevereBlock = false;
+    } else if (inSevereBlock && errors.length) {
+      errors[errors.length - 1] += `\n${line}`;
+    }
+    handlers.log(inSevereBlock || BUILD_FAILED.test(line) ? "error" : "build", line);
+
+    if (BUILD_STARTED.test(line)) {
+      setState("building");
+    } else if (BUILD_FAILED.test(line)) {
+      setState("failed");
+    } else if (BUILD_SUCCEEDED.test(line)) {
+      setState("succeeded");
+    }
+  };
+
+  let pending = "";
+  const handleChunk = (text: string): void => {
+    pending += text;
+    const lines = pending.split(/\r?\n/);
+    pending = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  };
+  child.stdout.setEncoding("utf8");
+  child.stderr.setEncoding("utf8");
+  child.stdout.on("data", handleChunk);
+  child.stderr.on("data", handleChunk);
+  child.on("error", (error) => {
+    handlers.log("error", `Could not start build_runner: ${error.message}`);
+    setState("exited");
+  });
+  child.on("close", (code) => {
+    if (pending) {
+      handleLine(pending);
+      pending = "";
+    }
+    if (state !== "exited") {
+      const level = code === 0 || code === null ? "build" : "error";
+      handlers.log(level, `build_runner watch exited with code ${code ?? "unknown"}`);
+      setState("exited");
+    }
+  });
+
+  /** Resolves on the first state change that `isDone` accepts, or after `timeoutMs`. */
+  const waitForState = (isDone: (next: BuildRunnerState) => boolean, timeoutMs: number): Promise<void> =>
+    new Promise((resolve) => {
+      const finish = (): void => {
+        clearTimeout(timer);
+        listeners.delete(listener);
+        resolve();
+      };
+      const listener = (next: BuildRunnerState): void => {
+        if (isDone(next)) {
+          finish();
+        }
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      listeners.add(listener);
+    });
+
+  return {
+    get state() {
+      return state;
+    },
+    get errors() {
+      return errors;
+    },
+    async waitForBuild(graceMs) {
+      if ((state === "succeeded" || state === "failed") && graceMs > 0) {
+        // build_runner notices a save on its own file watcher; wait for its "Starting Build" line.
+        await waitForState((next) => next === "building" || next === "exited", graceMs);
+      }
+      if (state === "starting" || state === "building") {
+        await waitForState((next) => next !== "building", BUILD_TIMEOUT_MS);
+      }
+      return state !== "failed";
+    },
+    dispose() {
+      Array.from(listeners).forEach((listener) => listener("exited"));
+      if (!exited) {
+        state = "exited";
+        exited = true;
+        child.kill("SIGTERM");
+      }
+    }
+  };
+}
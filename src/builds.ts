@@ -0,0 +1,86 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { RunProfile } from "./profiles";
+
+export type BuildTarget = "apk" | "appbundle" | "ipa" | "web" | "linux";
+
+export const BUILD_TARGETS: { target: BuildTarget; label: string; description: string }[] = [
+  { target: "apk", label: "APK", description: "Android package" },
+  { target: "appbundle", label: "App Bundle", description: "Android App Bundle for Google Play" },
+  { target: "ipa", label: "IPA", description: "iOS archive (macOS only)" },
+  { target: "web", label: "Web", description: "Static web build" },
+  { target: "linux", label: "Linux", description: "Linux desktop bundle" }
+];
+
+/** One entry of the build history kept in the workspace state. */
+export type BuildRecord = {
+  target: BuildTarget;
+  profileName: string;
+  folder: string;
+  startedAt: number;
+  durationMs: number;
+  succeeded: boolean;
+  artifactPath?: string;
+  sizeBytes?: number;
+};
+
+/** `flutter build <target>` options from the profile; the build mode defaults to Flutter's (release). */
+export function buildFlutterBuildArgs(
+  target: BuildTarget,
+  profile: RunProfile,
+  flavorAndDefineArgs: string[]
+): string[] {
+  const args = ["build", target, "-t", (profile.dartEntrypoint || "").trim() || "lib/main.dart"];
+  args.push(...flavorAndDefineArgs);
+  if (profile.buildMode) {
+    args.push(`--${profile.buildMode}`);
+  }
+  if (target === "web" && profile.webRenderer) {
+    args.push(`--web-renderer=${profile.webRenderer}`);
+  }
+  return args;
+}
+
+/**
+ * Finds the artifact in the last "Built ..." line of `flutter build`, for example
+ * `✓ Built build/app/outputs/flutter-apk/app-release.apk (20.5MB)` or `Built IPA to build/ios/ipa.`
+ */
+export function parseBuildArtifact(text: string, folder: string): string | undefined {
+  const pattern = /Built (?:IPA to )?(.+?)(?: \([\d.]+\s*[KMG]?B\))?\.?\s*$/gm;
+  let artifact: string | undefined;
+  for (const match of text.matchAll(pattern)) {
+    artifact = match[1].trim();
+  }
+  return artifact ? path.resolve(folder, artifact) : undefined;
+}
+
+/** Size of a file, or the total size of a directory artifact (web and desktop bundles). */
+export async function getArtifactSize(artifactPath: string): Promise<number | undefined> {
+  try {
+    const stat = await fs.stat(artifactPath);
+    if (!stat.isDirectory()) {
+      return stat.size;
+    }
+    let total = 0;
+    for (const entry of await fs.readdir(artifactPath, { withFileTypes: true })) {
+      total += (await getArtifactSize(path.join(artifactPath, entry.name))) ?? 0;
+    }
+    return total;
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
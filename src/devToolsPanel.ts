@@ -0,0 +1,154 @@
+import * as vscode from "vscode";
+
+export type DevToolsPage = "inspector" | "performance" | "memory" | "network" | "logging";
+
+export const DEVTOOLS_PAGES: { page: DevToolsPage; label: string }[] = [
+  { page: "inspector", label: "Widget Inspector" },
+  { page: "performance", label: "Performance" },
+  { page: "memory", label: "Memory" },
+  { page: "network", label: "Network" },
+  { page: "logging", label: "Logging" }
+];
+
+/**
+ * A single DevTools webview that outlives runs: it shows a waiting message between runs,
+ * follows the DevTools URL of the current run and remembers its column and page in the workspace state.
+ */
+export type DevToolsPanel = {
+  /** Opens (or reveals) the panel on a page; without a page the last one is used. */
+  show(page?: DevToolsPage): void;
+  /** The DevTools URL of the current run, or undefined when nothing is running. */
+  setUrl(url: string | undefined): void;
+  /** Reloads the embedded DevTools, for example after a hot restart replaced the isolate. */
+  reload(): void;
+  dispose(): void;
+};
+
+const VIEW_COLUMN_STATE_KEY = "flutterRunner.devToolsViewColumn";
+const PAGE_STATE_KEY = "flutterRunner.devToolsPage";
+
+export function createDevToolsPanel(state: vscode.Memento): DevToolsPanel {
+  let panel: vscode.WebviewPanel | undefined;
+  let devToolsUrl: string | undefined;
+  let page = state.get<DevToolsPage>(PAGE_STATE_KEY) ?? "inspector";
+  let reloadToken = 0;
+
+  const render = async () => {
+    if (!panel) {
+      return;
+    }
+    const target = devToolsUrl ? await buildPageUrl(devToolsUrl, page) : undefined;
+    if (!panel) {
+      return;
+    }
+    panel.title = `DevTools: ${DEVTOOLS_PAGES.find((item) => item.page === page)?.label ?? page}`;
+    panel.webview.html = getDevToolsHtml(panel.webview, target, reloadToken);
+  };
+
+  return {
+    show(nextPage?: DevToolsPage): void {
+      if (nextPage && nextPage !== page) {
+        page = nextPage;
+        void state.update(PAGE_STATE_KEY, page);
+        void render();
+      }
+      if (panel) {
+        panel.reveal(undefined, false);
+        return;
+      }
+      panel = vscode.window.createWebviewPanel(
+        "flutterRunnerDevTools",
+        "DevTools",
+        { viewColumn: state.get<vscode.ViewColumn>(VIEW_COLUMN_STATE_KEY) ?? vscode.ViewColumn.Beside },
+        { enableScripts: true, retainContextWhenHidden: true }
+      );
+      panel.onDidChangeViewState((event) => {
+        if (event.webviewPanel.viewColumn) {
+          void state.update(VIEW_COLUMN_STATE_KEY, event.webviewPanel.viewColumn);
+        }
+      });
+      panel.webview.onDidReceiveMessage((message: unknown) => {
+        const payload = message as { type?: string; page?: unknown } | undefined;
+        if (payload?.type === "page" && DEVTOOLS_PAGES.some((item) => item.page === payload.page)) {
+          page = payload.page as DevToolsPage;
+          void state.update(PAGE_STATE_KEY, page);
+          void render();
+        }
+      });
+      panel.onDidDispose(() => {
+        panel = undefined;
+      });
+      void render();
+    },
+    setUrl(url: string | undefined): void {
+      if (url === devToolsUrl) {
+        return;
+      }
+      devToolsUrl = url;
+      void render();
+    },
+    reload(): void {
+      if (devToolsUrl) {
+        reloadToken++;
+        void render();
+      }
+    },
+    dispose(): void {
+      panel?.dispose();
+    }
+  };
+}
+
+/**
+ * DevTools serves each page at its own path (`/inspector?uri=...`); the VM service URI is kept from the
+ * captured URL. The URL goes through `asExternalUri` so it also works in remote workspaces.
+ */
+async function buildPageUrl(devToolsUrl: string, page: DevToolsPage): Promise<string> {
+  const url = new URL(devToolsUrl);
+  url.pathname = `/${page}`;
+  url.searchParams.set("ide", "VSCode");
+  url.searchParams.set("embed", "true");
+  const isDark =
+    vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ||
+    vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.HighContrast;
+  url.searchParams.set("theme", isDark ? "dark" : "light");
+  const external = await vscode.env.asExternalUri(vscode.Uri.parse(url.toString()));
+  return external.toString(true);
+}
+
+function getDevToolsHtml(webview: vscode.Webview, target: string | undefined, reloadToken: number): string {
+  const escape = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+  const pageButtons = DEVTOOLS_PAGES.map(
+    (item) => `<button data-page="${item.page}">${escape(item.label)}</button>`
+  ).join("");
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; frame-src http: https:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'unsafe-inline';" />
+    <title>DevTools</title>
+    <style>
+      html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+      .toolbar { display: flex; gap: 6px; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+      button { padding: 3px 10px; cursor: pointer; border: 1px solid transparent; background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+      iframe { width: 100%; height: calc(100% - 34px); border: 0; }
+      .waiting { padding: 24px; opacity: 0.8; }
+    </style>
+  </head>
+  <body>
+    <div class="toolbar">${pageButtons}</div>
+    ${
+      target
+        ? `<iframe src="${escape(target)}" data-reload="${reloadToken}" allow="clipboard-read; clipboard-write"></iframe>`
+        : `<div class="waiting">Waiting for a Flutter run to report its DevTools URL...</div>`
+    }
+    <script>
+      const vscode = acquireVsCodeApi();
+      for (const button of document.querySelectorAll('button[data-page]')) {
+        button.addEventListener('click', () => vscode.postMessage({ type: 'page', page: button.dataset.page }));
+      }
+    </script>
+  </body>
+</html>`;
+}
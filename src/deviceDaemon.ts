@@ -0,0 +1,100 @@
+import { spawn } from "child_process";
+import { createFlutterDaemon, FlutterDaemon, FlutterDevice, toFlutterDevice } from "./flutterDaemon";
+
+export type DeviceDaemon = {
+  readonly daemon: FlutterDaemon;
+  /** True once the initial device list has been received. */
+  isReady(): boolean;
+  getDevices(): FlutterDevice[];
+  dispose(): void;
+};
+
+/**
+ * Runs a long-lived `flutter daemon` and keeps the connected device list current
+ * from its `device.added` / `device.removed` events.
+ */
+export function startDeviceDaemon(handlers: {
+  log: (line: string) => void;
+  onDevicesChanged: () => void;
+  onExit: (error?: Error) => void;
+}): DeviceDaemon {
+  const child = spawn("flutter", ["daemon"], { shell: false });
+  const devices = new Map<string, FlutterDevice>();
+  let ready = false;
+  let disposed = false;
+
+  const daemon = createFlutterDaemon(child, {
+    onEvent: (event) => {
+      if (event.event === "daemon.connected") {
+        void enableDeviceDiscovery();
+        return;
+      }
+      if (event.event === "daemon.logMessage" && event.params.level !== "status") {
+        handlers.log(`[devices] ${event.params.message}`);
+        return;
+      }
+      if (event.event === "device.added") {
+        const device = toFlutterDevice(event.params);
+        if (device) {
+          devices.set(device.id, device);
+          handlers.onDevicesChanged();
+        }
+        return;
+      }
+      if (event.event === "device.removed") {
+        if (devices.delete(event.params.id)) {
+          handlers.onDevicesChanged();
+        }
+      }
+    },
+    onText: () => {
+      // `flutter daemon` prints SDK notices before the protocol starts.
+    }
+  });
+
+  const enableDeviceDiscovery = async () => {
+    try {
+      await daemon.sendRequest("device.enable");
+      const initial = await daemon.sendRequest<unknown[]>("device.getDevices");
+      for (const raw of Array.isArray(initial) ? initial : []) {
+        const device = toFlutterDevice(raw);
+        if (device) {
+          devices.set(device.id, device);
+        }
+      }
+    } catch (error) {
+      // Not ready: callers keep using `flutter devices --machine` instead of an empty device list.
+      handlers.log(`[devices] Device discovery failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    ready = true;
+    handlers.onDevicesChanged();
+  };
+
+  child.on("error", (error) => {
+    if (!disposed) {
+      disposed = true;
+      handlers.onExit(error);
+    }
+  });
+  child.on("close", (code) => {
+    if (!disposed) {
+      disposed = true;
+      handlers.onExit(code ? new Error(`flutter daemon exited with code ${code}`) : undefined);
+    }
+  });
+
+  return {
+    daemon,
+    isReady: () => ready,
+    getDevices: () => Array.from(devices.values()),
+    dispose(): void {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      daemon.dispose();
+      child.kill("SIGTERM");
+    }
+  };
+}
@@ -0,0 +1,29 @@
+/** An emulator or simulator as listed by `flutter emulators`. */
+export type FlutterEmulator = {
+  id: string;
+  name: string;
+  manufacturer?: string;
+  platform?: string;
+};
+
+/**
+ * Parses the table printed by `flutter emulators`:
+ * `Pixel_7_API_34 • Pixel 7 API 34 • Google • android`.
+ * Header, hint and notice lines are ignored.
+ */
+export function parseFlutterEmulators(text: string): FlutterEmulator[] {
+  const emulators: FlutterEmulator[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const columns = line.split("•").map((column) => column.trim());
+    if (columns.length < 2 || !columns[0] || /\s/.test(columns[0])) {
+      continue;
+    }
+    emulators.push({
+      id: columns[0],
+      name: columns[1] || columns[0],
+      manufacturer: columns[2] || undefined,
+      platform: columns[3] || undefined
+    });
+  }
+  return emulators;
+}
@@ -2,12 +2,149 @@ import * as vscode from "vscode";
 import { ChildProcessWithoutNullStreams, spawn } from "child_process";
 import * as fs from "fs/promises";
 import * as path from "path";
+import {
+  BUILD_TARGETS,
+  BuildRecord,
+  BuildTarget,
+  buildFlutterBuildArgs,
+  formatSize,
+  getArtifactSize,
+  parseBuildArtifact
+} from "./builds";
+import { BuildRunnerState, BuildRunnerWatch, startBuildRunnerWatch } from "./buildRunnerWatch";
+import { DeviceDaemon, startDeviceDaemon } from "./deviceDaemon";
+import { createDevToolsPanel, DEVTOOLS_PAGES, DevToolsPage, DevToolsPanel } from "./devToolsPanel";
+import { runPreLaunchSteps } from "./preLaunch";
+import { hasExited, killProcessTree, PROCESS_GROUP_SPAWN_OPTIONS, waitForExit } from "./processTree";
+import { classifyRunExit, describeRunExit, getRelaunchDelayMs, isLostConnectionLine, RunExitKind } from "./runExit";
+import {
+  createDevicesTree,
+  createProfilesTree,
+  createSessionsTree,
+  DeviceNode,
+  ProfileNode,
+  RunnerTree,
+  SessionNode
+} from "./runnerViews";
+import {
+  createRunHistoryTree,
+  createRunLog,
+  formatRunCommand,
+  pruneRunLogs,
+  RunHistoryTree,
+  RunRecord
+} from "./runHistory";
+import { createWebPreviewPanel, findFreePort, WebPreviewPanel } from "./webPreview";
+import {
+  DEFAULT_RELOAD_EXCLUDE,
+  DEFAULT_RELOAD_INCLUDE,
+  getPathDependencyFolders,
+  isInsideFolder,
+  matchesReloadFilters
+} from "./saveReload";
+import { FlutterEmulator, parseFlutterEmulators } from "./emulators";
+import { createRunConsole, resolveDartLocation, RunConsole } from "./runConsole";
+import { parseProblemLine, parseRunProblems, RunProblem } from "./runDiagnostics";
+import { createFlutterTestController, FlutterTestController, IntegrationTestOptions } from "./testRunner";
+import {
+  BRIGHTNESS_OVERRIDES,
+  connectVmService,
+  FLUTTER_SERVICE_TOGGLES,
+  PLATFORM_OVERRIDES,
+  VmService
+} from "./vmService";
+import {
+  AppRestartResult,
+  createFlutterDaemon,
+  FlutterDaemon,
+  FlutterDaemonEvent,
+  FlutterDevice,
+  toFlutterDevice
+} from "./flutterDaemon";
+import {
+  BUILD_MODES,
+  normalizeProfile,
+  PreLaunchStep,
+  resolveProfileInheritance,
+  RunProfile,
+  SAVE_ACTIONS,
+  setOptionalField,
+  substituteProfileVariables,
+  WEB_RENDERERS
+} from "./profiles";
+import {
+  createProfileFileValidator,
+  findProjectProfileFile,
+  loadProjectProfileFile,
+  PROJECT_PROFILE_FILE_NAMES,
+  ProjectProfileFile,
+  writeProjectProfileFile
+} from "./projectProfiles";
+import { ValidateFunction } from "ajv";
 
-type RunProfile = {
-  name: string;
-  dartEntrypoint?: string;
-  flavor?: string;
-  [key: string]: unknown;
+/** Where a configured profile is stored, so edits are written back to the same place. */
+type ProfileSource =
+  | { kind: "projectFile"; filePath: string }
+  | { kind: "workspaceSettings" }
+  | { kind: "userSettings" };
+
+type ConfiguredProfile = { profile: RunProfile; source: ProfileSource };
+
+/** Options of `flutter attach`; without either, Flutter finds the app on the device itself. */
+type AttachOptions = { debugUrl?: string; appId?: string };
+
+/** What `launchRunSession` starts; kept on the session so an unexpected exit can be relaunched as it was. */
+type LaunchOptions = {
+  folder: string;
+  profile: RunProfile;
+  deviceId: string;
+  deviceName: string;
+  selectedDeviceId: string;
+  opensInTab: boolean;
+  attach?: AttachOptions;
+  /** The profile saved in Recent Runs, with `${env:NAME}` not expanded; defaults to `profile`. */
+  historyProfile?: RunProfile;
+  /** Set when the run is an automatic relaunch after a crash; counts the attempts in a row. */
+  relaunchAttempt?: number;
+};
+
+/** One `flutter run --machine` or `flutter attach --machine` process and everything captured from it. */
+type RunSession = {
+  id: string;
+  mode: "run" | "attach";
+  launch: LaunchOptions;
+  startedAt: number;
+  /** Id of the session's entry in the Recent Runs history. */
+  historyId: string;
+  deviceId: string;
+  deviceName: string;
+  profile: RunProfile;
+  folder: string;
+  process: ChildProcessWithoutNullStreams;
+  daemon: FlutterDaemon;
+  output: vscode.OutputChannel;
+  console: RunConsole;
+  stopButton: vscode.StatusBarItem;
+  appId?: string;
+  /** Set once `app.started` arrived. */
+  started?: boolean;
+  vmServiceUri?: string;
+  vmService?: Promise<VmService>;
+  devToolsUrl?: string;
+  webAppUrl?: string;
+  isWeb: boolean;
+  opensInTab: boolean;
+  hasOpenedWebPreview: boolean;
+  /** The `app.restart` request being sent; later restarts wait for `done` so only one is in flight. */
+  restartInFlight?: { fullRestart: boolean; startedAt: number; done: Promise<void> };
+  hotReloadQueued: boolean;
+  /** Set when the tool reported that the device or its VM service went away. */
+  lostConnection?: boolean;
+  /** Set when the `flutter` process could not be spawned at all, for example because it is not in PATH. */
+  spawnFailed?: boolean;
+  appStopError?: string;
+  /** Set from the moment Stop is requested until the process has exited and the session is released. */
+  stopping?: Promise<void>;
 };
 
 const FLUTTER_CONTEXT_KEY = "flutterRunner.isFlutterProject";
@@ -16,28 +153,78 @@ const HAS_WEB_DEVICE_CONTEXT_KEY = "flutterRunner.hasWebDevice";
 const IS_RUNNING_CONTEXT_KEY = "flutterRunner.isRunning";
 const IS_STARTING_CONTEXT_KEY = "flutterRunner.isStarting";
 const HAS_DEVTOOLS_URL_CONTEXT_KEY = "flutterRunner.hasDevToolsUrl";
-const DEVTOOLS_URL_PATTERN = /(https?:\/\/[^\s)]+)/i;
-const URL_PATTERN_GLOBAL = /https?:\/\/[^\s)]+/gi;
+const SELECTED_APP_STATE_KEY = "flutterRunner.selectedAppPath";
+const SELECTED_DEVICE_STATE_KEY = "flutterRunner.selectedDeviceId";
+const BUILD_HISTORY_STATE_KEY = "flutterRunner.buildHistory";
+const BUILD_HISTORY_LIMIT = 10;
+const WEB_PORTS_STATE_KEY = "flutterRunner.webPorts";
+const RUN_HISTORY_STATE_KEY = "flutterRunner.runHistory";
+const RUN_HISTORY_LIMIT = 20;
+const FLUTTER_APP_MARKERS = ["lib/main.dart", "android", "ios", "web", "macos", "linux", "windows"];
+const PUBSPEC_EXCLUDE_GLOB = "**/{.dart_tool,build,node_modules,.git,.symlinks,ephemeral}/**";
+const EMULATOR_BOOT_TIMEOUT_MS = 180000;
+const RUN_DIAGNOSTIC_SOURCE = "Flutter Runner";
+const BUILD_RUNNER_SAVE_GRACE_MS = 1500;
+/** A `part` of generated code, such as `part 'user.g.dart';`, marks a build_runner input. */
+const GENERATED_PART_PATTERN = /^\s*part\s+['"][^'"]+\.\w+\.dart['"]\s*;/m;
+const SAVE_RELOAD_DEBOUNCE_MS = 250;
+/** A relaunched app that stays up this long starts the next crash with a fresh attempt count. */
+const STABLE_RUN_MS = 5 * 60 * 1000;
+const CRASH_NOTIFICATION_ERROR_LINES = 3;
+/** How long a process tree killed after the stop timeout gets to exit before the session is released anyway. */
+const KILL_GRACE_MS = 2000;
 
 let output: vscode.OutputChannel;
-let runProcess: ChildProcessWithoutNullStreams | undefined;
+const runSessions = new Map<string, RunSession>();
+const sessionOutputChannels = new Map<string, vscode.OutputChannel>();
+const sessionConsoles = new Map<string, RunConsole>();
+let nextRunSessionId = 1;
 let runButton: vscode.StatusBarItem;
 let runWebTabButton: vscode.StatusBarItem;
-let stopButton: vscode.StatusBarItem;
 let devToolsButton: vscode.StatusBarItem;
+let runtimeToolsButton: vscode.StatusBarItem;
+let devToolsPanel: DevToolsPanel;
+/** The session whose DevTools the panel shows; a new run takes over the panel when this one is gone. */
+let devToolsSessionId: string | undefined;
+let webPreviewPanel: WebPreviewPanel;
+let webPreviewSessionId: string | undefined;
+let runHistoryTree: RunHistoryTree;
+let profilesTree: RunnerTree<ProfileNode>;
+let devicesTree: RunnerTree<DeviceNode>;
+let sessionsTree: RunnerTree<SessionNode>;
+/** Serializes history updates, which read, prune log files and write the workspace state. */
+let runHistoryUpdate: Promise<void> = Promise.resolve();
 let profileButton: vscode.StatusBarItem;
+let appButton: vscode.StatusBarItem;
+let deviceButton: vscode.StatusBarItem;
+let deviceDaemon: DeviceDaemon | undefined;
+let deviceDaemonFailed = false;
+const deviceChangeListeners = new Set<() => void>();
+let reloadStatusItem: vscode.StatusBarItem;
+let buildRunnerStatusItem: vscode.StatusBarItem;
+/** `build_runner watch` companions, per app folder; shared by the sessions running that app. */
+const buildRunnerWatches = new Map<string, BuildRunnerWatch>();
+/** Automatic relaunches waiting for their backoff delay, by device id. */
+const pendingRelaunches = new Map<string, NodeJS.Timeout>();
 let selectedDeviceId: string | undefined;
 let extensionCtx: vscode.ExtensionContext;
 let hotReloadDebounceTimer: NodeJS.Timeout | undefined;
-let latestDevToolsUrl: string | undefined;
-let latestWebAppUrl: string | undefined;
+const changedDartFiles = new Set<string>();
 let isRunStarting = false;
-let hasOpenedWebPreviewForRun = false;
-let currentRunIsWeb = false;
-let currentRunOpensInTab = false;
-let cachedFlutterProjectFolder:
-  | { key: string; resolvedAt: number; folderPath: string | undefined }
-  | undefined;
+let reportedProfileErrors = "";
+let profileDiagnostics: vscode.DiagnosticCollection;
+let runDiagnostics: vscode.DiagnosticCollection;
+let testController: FlutterTestController;
+/** Diagnostics from run output, per device and file path. */
+const runProblems = new Map<string, Map<string, vscode.Diagnostic[]>>();
+let profileFileValidator: ValidateFunction | undefined;
+let projectProfiles: ProjectProfileFile | undefined;
+let cachedFlutterProjectFolder: { key: string; folderPath: string | undefined } | undefined;
+let cachedPubspecFolders: string[] | undefined;
+let cachedFlutterApps: string[] | undefined;
+let lastStatusBarSnapshot: string | undefined;
+let isStatusBarRefreshing = false;
+let queuedRefreshReasons: string[] = [];
 
 export function activate(context: vscode.ExtensionContext): void {
   extensionCtx = context;
@@ -53,67 +240,225 @@ export function activate(context: vscode.ExtensionContext): void {
   runWebTabButton.text = "$(browser) Tab";
   runWebTabButton.tooltip = "Run Flutter Web in editor tab";
 
-  stopButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 198);
-  stopButton.command = "flutterRunner.stopRun";
-  stopButton.text = "$(debug-stop)";
-  stopButton.tooltip = "Stop current Flutter run";
-
   devToolsButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 197);
   devToolsButton.command = "flutterRunner.openDevTools";
   devToolsButton.text = "$(globe)";
   devToolsButton.tooltip = "Open Flutter DevTools";
 
+  runtimeToolsButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 196.8);
+  runtimeToolsButton.command = "flutterRunner.showRuntimeTools";
+  runtimeToolsButton.text = "$(tools)";
+  runtimeToolsButton.tooltip = "Flutter runtime tools (debug paint, overlays, overrides, tree dumps)";
+
   profileButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 196);
   profileButton.command = "flutterRunner.selectProfile";
 
+  appButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 201);
+  appButton.command = "flutterRunner.selectApp";
+
+  deviceButton = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 196.5);
+  deviceButton.command = "flutterRunner.selectDevice";
+
+  reloadStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 195);
+  reloadStatusItem.command = "flutterRunner.showOutput";
+
+  buildRunnerStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 194);
+
+  devToolsPanel = createDevToolsPanel(context.workspaceState);
+  webPreviewPanel = createWebPreviewPanel(context.workspaceState);
+  runHistoryTree = createRunHistoryTree(getRunHistory, (record) =>
+    Array.from(runSessions.values()).some((session) => session.historyId === record.id)
+  );
+  profilesTree = createProfilesTree(getProfileNodes);
+  devicesTree = createDevicesTree(getDeviceNodes);
+  sessionsTree = createSessionsTree(getSessionNodes);
+  profileDiagnostics = vscode.languages.createDiagnosticCollection("flutterRunner.profiles");
+  runDiagnostics = vscode.languages.createDiagnosticCollection("flutterRunner.run");
+  testController = createFlutterTestController({
+    getProjectFolder: resolveFlutterProjectFolderPath,
+    getIntegrationTestOptions,
+    formatArgs: formatArgsForLog,
+    log: (line) => output.appendLine(line)
+  });
+  const profileFileWatcher = vscode.workspace.createFileSystemWatcher(
+    `**/{${PROJECT_PROFILE_FILE_NAMES.join(",")}}`
+  );
+  const onProfileFileChanged = (uri: vscode.Uri) => {
+    void handleProfileFileChanged(context, uri);
+  };
+  const pubspecWatcher = vscode.workspace.createFileSystemWatcher("**/pubspec.yaml");
+  const dartFileWatcher = vscode.workspace.createFileSystemWatcher("**/*.dart");
+  const onPubspecChanged = (uri: vscode.Uri, listChanged: boolean) => {
+    invalidateProjectDetection(listChanged);
+    void updateStatusBar(context, `pubspec.yaml changed (${vscode.workspace.asRelativePath(uri)})`);
+  };
+
   context.subscriptions.push(
     output,
     runButton,
     runWebTabButton,
-    stopButton,
     devToolsButton,
+    runtimeToolsButton,
+    devToolsPanel,
+    webPreviewPanel,
+    vscode.window.registerTreeDataProvider("flutterRunner.profilesView", profilesTree),
+    vscode.window.registerTreeDataProvider("flutterRunner.devicesView", devicesTree),
+    vscode.window.registerTreeDataProvider("flutterRunner.sessionsView", sessionsTree),
+    vscode.window.registerTreeDataProvider("flutterRunner.recentRuns", runHistoryTree),
     profileButton,
+    appButton,
+    deviceButton,
+    reloadStatusItem,
+    buildRunnerStatusItem,
+    profileDiagnostics,
+    runDiagnostics,
+    testController,
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: "file" },
+      { provideCodeActions: provideHotRestartQuickFix },
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    ),
+    profileFileWatcher,
+    profileFileWatcher.onDidCreate(onProfileFileChanged),
+    profileFileWatcher.onDidChange(onProfileFileChanged),
+    profileFileWatcher.onDidDelete(onProfileFileChanged),
+    pubspecWatcher,
+    pubspecWatcher.onDidCreate((uri) => onPubspecChanged(uri, true)),
+    pubspecWatcher.onDidChange((uri) => onPubspecChanged(uri, false)),
+    pubspecWatcher.onDidDelete((uri) => onPubspecChanged(uri, true)),
     vscode.commands.registerCommand("flutterRunner.run", () => runFlutter(context)),
     vscode.commands.registerCommand("flutterRunner.runWebInTab", () => runFlutterWebInTab(context)),
+    vscode.commands.registerCommand("flutterRunner.runOnMultipleDevices", () => runOnMultipleDevices(context)),
+    vscode.commands.registerCommand("flutterRunner.attach", (options?: AttachOptions) =>
+      attachToFlutterApp(context, options)
+    ),
     vscode.commands.registerCommand("flutterRunner.stopRun", () => stopRun(context)),
-    vscode.commands.registerCommand("flutterRunner.openDevTools", openDevTools),
-    vscode.commands.registerCommand("flutterRunner.hotReload", () => triggerHotReload("manual")),
+    vscode.commands.registerCommand("flutterRunner.stopSession", (target?: unknown) =>
+      stopSessionCommand(context, typeof target === "string" ? target : getSessionNodeId(target))
+    ),
+    vscode.commands.registerCommand("flutterRunner.openDevTools", (target?: unknown) =>
+      // Editor toolbar buttons pass the active file's URI; only a page name selects a page.
+      openDevTools(DEVTOOLS_PAGES.find((item) => item.page === target)?.page, getSessionNodeId(target))
+    ),
+    vscode.commands.registerCommand("flutterRunner.openDevToolsPage", openDevToolsPage),
+    vscode.commands.registerCommand("flutterRunner.showRuntimeTools", showRuntimeTools),
+    vscode.commands.registerCommand("flutterRunner.toggleDebugPaint", () => toggleServiceExtension("debugPaint")),
+    vscode.commands.registerCommand("flutterRunner.togglePerformanceOverlay", () =>
+      toggleServiceExtension("performanceOverlay")
+    ),
+    vscode.commands.registerCommand("flutterRunner.toggleSlowAnimations", () =>
+      toggleServiceExtension("slowAnimations")
+    ),
+    vscode.commands.registerCommand("flutterRunner.overridePlatform", overridePlatform),
+    vscode.commands.registerCommand("flutterRunner.overrideBrightness", overrideBrightness),
+    vscode.commands.registerCommand("flutterRunner.dumpWidgetTree", () => dumpTree("widget")),
+    vscode.commands.registerCommand("flutterRunner.dumpRenderTree", () => dumpTree("render")),
+    vscode.commands.registerCommand("flutterRunner.hotReload", (target?: unknown) =>
+      triggerHotReload("manual", getSessionNodeId(target))
+    ),
+    vscode.commands.registerCommand("flutterRunner.hotRestart", (target?: unknown) =>
+      triggerHotRestart("manual", typeof target === "string" ? target : getSessionNodeId(target))
+    ),
+    vscode.commands.registerCommand("flutterRunner.showOutput", showOutput),
+    vscode.commands.registerCommand("flutterRunner.showRunConsole", showRunConsole),
     vscode.commands.registerCommand("flutterRunner.selectProfile", () => selectProfile(context)),
+    vscode.commands.registerCommand("flutterRunner.setActiveProfile", async (node?: ProfileNode) => {
+      const profile = node?.profile ?? (await pickProfile("Select active profile"));
+      if (profile) {
+        await setActiveProfile(profile.name, context);
+      }
+    }),
+    vscode.commands.registerCommand("flutterRunner.runProfile", (node?: ProfileNode) => runProfile(context, node)),
+    vscode.commands.registerCommand("flutterRunner.createProfile", () => createProfile(context)),
+    vscode.commands.registerCommand("flutterRunner.editProfile", async (node?: ProfileNode) => {
+      const profile = node?.profile ?? (await pickProfile("Select profile to edit"));
+      if (profile) {
+        await editProfile(context, profile);
+      }
+    }),
+    vscode.commands.registerCommand("flutterRunner.duplicateProfile", async (node?: ProfileNode) => {
+      const profile = node?.profile ?? (await pickProfile("Select profile to duplicate"));
+      if (profile) {
+        await duplicateProfile(context, profile);
+      }
+    }),
+    vscode.commands.registerCommand("flutterRunner.deleteProfile", async (node?: ProfileNode) => {
+      const profile = node?.profile ?? (await pickProfile("Select profile to delete"));
+      if (profile) {
+        await deleteProfile(context, profile);
+      }
+    }),
+    vscode.commands.registerCommand("flutterRunner.selectApp", () => selectFlutterApp(context)),
+    vscode.commands.registerCommand("flutterRunner.selectDevice", (deviceId?: unknown) =>
+      selectDevice(context, typeof deviceId === "string" ? deviceId : undefined)
+    ),
+    vscode.commands.registerCommand("flutterRunner.refreshDevices", refreshDevices),
+    vscode.commands.registerCommand("flutterRunner.launchEmulator", () => launchEmulatorCommand(context)),
+    vscode.commands.registerCommand("flutterRunner.runRelatedTests", runRelatedTests),
+    vscode.commands.registerCommand("flutterRunner.build", (target?: BuildTarget) =>
+      buildWithActiveProfile(context, target)
+    ),
+    vscode.commands.registerCommand("flutterRunner.showBuildHistory", () => showBuildHistory(context)),
+    vscode.commands.registerCommand("flutterRunner.runAgain", (record?: RunRecord) => runAgain(context, record)),
+    vscode.commands.registerCommand("flutterRunner.copyRunCommand", copyRunCommand),
+    vscode.commands.registerCommand("flutterRunner.openRunLog", openRunLog),
+    vscode.commands.registerCommand("flutterRunner.clearRunHistory", clearRunHistory),
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (
         event.affectsConfiguration("flutterRunner.activeProfile") ||
         event.affectsConfiguration("flutterRunner.profiles") ||
         event.affectsConfiguration("dart.flutterDeviceId")
       ) {
-        void updateStatusBar(context);
+        void updateStatusBar(context, "configuration changed");
       }
     }),
     vscode.workspace.onDidChangeWorkspaceFolders(() => {
-      void updateStatusBar(context);
+      invalidateProjectDetection(true);
+      void updateStatusBar(context, "workspace folders changed");
     }),
-    vscode.window.onDidChangeWindowState(() => {
-      void updateStatusBar(context);
+    vscode.window.onDidChangeActiveTextEditor(() => {
+      // The active file only matters while the app is detected automatically.
+      if (!getSelectedAppPath()) {
+        void updateStatusBar(context, "active editor changed");
+      }
+    }),
+    vscode.window.onDidChangeWindowState((state) => {
+      // The Dart extension has no device selection event; pick up changes made there when focus returns.
+      if (state.focused) {
+        void updateStatusBar(context, "window focused");
+      }
     }),
     vscode.workspace.onDidSaveTextDocument((doc) => {
-      void handleDocumentSaved(doc);
+      handleDocumentSaved(doc);
     }),
+    dartFileWatcher,
+    dartFileWatcher.onDidChange(queueChangedDartFile),
+    dartFileWatcher.onDidCreate(queueChangedDartFile),
     new vscode.Disposable(() => {
-      clearInterval(deviceRefreshInterval);
       if (hotReloadDebounceTimer) {
         clearTimeout(hotReloadDebounceTimer);
       }
+      cancelPendingRelaunches();
+      for (const channel of sessionOutputChannels.values()) {
+        channel.dispose();
+      }
+      sessionOutputChannels.clear();
+      for (const runConsole of sessionConsoles.values()) {
+        runConsole.dispose();
+      }
+      sessionConsoles.clear();
+      deviceDaemon?.dispose();
+      deviceDaemon = undefined;
     })
   );
 
-  const deviceRefreshInterval = setInterval(() => {
-    void updateStatusBar(context);
-  }, 4000);
+  ensureDeviceDaemon();
 
-  void updateStatusBar(context);
+  void updateStatusBar(context, "activation");
 }
 
-export function deactivate(): void {
-  void stopRun();
+export function deactivate(): Promise<void> {
+  return stopRun();
 }
 
 async function runFlutter(context: vscode.ExtensionContext): Promise<void> {
@@ -122,7 +467,7 @@ async function runFlutter(context: vscode.ExtensionContext): Promise<void> {
     return;
   }
 
-  if (runProcess) {
+  if (runSessions.size > 0) {
     await triggerHotRestart("manual");
     return;
   }
@@ -135,7 +480,7 @@ async function runFlutterWebInTab(context: vscode.ExtensionContext): Promise<voi
     void vscode.window.showWarningMessage("Flutter run is already starting. Please wait.");
     return;
   }
-  if (runProcess) {
+  if (runSessions.size > 0) {
     void vscode.window.showWarningMessage(
       "A Flutter run is already active. Stop it first, then use Run Web in Tab."
     );
@@ -144,6 +489,20 @@ async function runFlutterWebInTab(context: vscode.ExtensionContext): Promise<voi
   await startFlutterRun(context, true);
 }
 
+/** Makes the profile active and starts it on the selected device, next to any runs on other devices. */
+async function runProfile(context: vscode.ExtensionContext, node?: ProfileNode): Promise<void> {
+  const profile = node?.profile ?? (await pickProfile("Select profile to run"));
+  if (!profile) {
+    return;
+  }
+  if (isRunStarting) {
+    void vscode.window.showWarningMessage("Flutter run is already starting. Please wait.");
+    return;
+  }
+  await setActiveProfile(profile.name, context, false);
+  await startFlutterRun(context, false);
+}
+
 async function startFlutterRun(
   context: vscode.ExtensionContext,
   forceWebInTab: boolean
@@ -151,36 +510,41 @@ async function startFlutterRun(
   isRunStarting = true;
   await setStartingState(context, true);
   try {
-    const folder = await resolveFlutterProjectFolderPath();
-    if (!folder) {
-      void vscode.window.showErrorMessage(
-        "No Flutter app/package project detected. Open a workspace with a valid pubspec.yaml (including Flutter Web/custom package setups)."
-      );
+    const target = await resolveRunTarget();
+    if (!target) {
       return;
     }
 
-    const profile = getActiveProfile() ?? getProfiles()[0];
-    if (!profile) {
-      void vscode.window.showErrorMessage(
-        "No Flutter Runner profiles configured. Add at least one profile in settings."
-      );
-      return;
+    let selectedDevice = await resolveSelectedDeviceId();
+    const preferredEmulator = target.profile.preferredEmulator;
+    if (preferredEmulator && (!selectedDevice || !isDeviceConnected(selectedDevice))) {
+      output.appendLine(`[emulators] No device connected; booting "${preferredEmulator}" for profile "${target.profile.name}".`);
+      const device = await launchEmulator(context, preferredEmulator);
+      if (!device) {
+        return;
+      }
+      selectedDevice = device.id;
     }
 
-    const selectedDevice = await resolveSelectedDeviceId();
     if (!selectedDevice) {
-      runButton.text = "$(circle-slash)";
-      runButton.command = undefined;
-      runButton.tooltip = "Select a Flutter device in the toolbar first";
-      await vscode.commands.executeCommand("setContext", HAS_SELECTED_DEVICE_CONTEXT_KEY, false);
       const selection = await vscode.window.showWarningMessage(
-        "No Flutter device selected. Select one from the Flutter/Dart device toolbar first.",
-        "Open Flutter: Select Device"
+        "No Flutter device selected. Connect a device, launch an emulator or select one first.",
+        "Launch Emulator",
+        "Select Device"
       );
-      if (selection === "Open Flutter: Select Device") {
-        await vscode.commands.executeCommand("flutter.selectDevice");
+      if (selection === "Select Device") {
+        await vscode.commands.executeCommand("flutterRunner.selectDevice");
+        return;
       }
-      return;
+      if (selection !== "Launch Emulator") {
+        return;
+      }
+      // Continue the pending run on the emulator once it has connected.
+      const device = await pickAndLaunchEmulator(context);
+      if (!device) {
+        return;
+      }
+      selectedDevice = device.id;
     }
 
     const selectedIsWeb = isWebDeviceId(selectedDevice);
@@ -191,70 +555,27 @@ async function startFlutterRun(
       return;
     }
 
-    const runDeviceId = forceWebInTab && selectedIsWeb ? "web-server" : selectedDevice;
-    const entrypoint = (profile.dartEntrypoint || "").trim() || "lib/main.dart";
-    const flavor = (profile.flavor || "").trim();
-    const args = ["run"];
-
-    args.push("-t", entrypoint);
-    args.push("-d", runDeviceId);
-    if (flavor.length > 0) {
-      args.push("--flavor", flavor);
-    }
-
-    output.show(true);
-    output.appendLine("");
-    output.appendLine("=== Flutter Runner ===");
-    output.appendLine(`Profile: ${profile.name}`);
-    output.appendLine(`Device: ${runDeviceId}`);
-    if (runDeviceId !== selectedDevice) {
-      output.appendLine(`Selected device: ${selectedDevice}`);
-    }
-    output.appendLine(`Entrypoint: ${entrypoint}`);
-    output.appendLine(`Flavor: ${flavor || "none"}`);
-    if (forceWebInTab) {
-      output.appendLine("Web mode: editor tab");
-    }
-    output.appendLine(`Command: flutter ${args.join(" ")}`);
-    output.appendLine("");
-    latestDevToolsUrl = undefined;
-    latestWebAppUrl = undefined;
-    hasOpenedWebPreviewForRun = false;
-    currentRunIsWeb = selectedIsWeb;
-    currentRunOpensInTab = forceWebInTab && selectedIsWeb;
-    await vscode.commands.executeCommand("setContext", HAS_DEVTOOLS_URL_CONTEXT_KEY, false);
-
-    runProcess = spawn("flutter", args, {
-      cwd: folder,
-      shell: false
-    });
-
-    await setRunningState(context, true);
-
-    runProcess.stdout.on("data", (chunk: Buffer) => {
-      const text = chunk.toString();
-      output.append(text);
-      void captureDevToolsUrl(text);
-      void captureWebAppUrl(text);
-    });
-    runProcess.stderr.on("data", (chunk: Buffer) => {
-      const text = chunk.toString();
-      output.append(text);
-      void captureDevToolsUrl(text);
-      void captureWebAppUrl(text);
-    });
-
-    runProcess.on("error", (error) => {
-      output.appendLine(`\n[error] ${error.message}`);
-      void stopRun(context);
-      void vscode.window.showErrorMessage(
-        "Could not start Flutter. Make sure `flutter` is installed and in PATH."
-      );
-    });
+    const deviceId = forceWebInTab && selectedIsWeb ? "web-server" : selectedDevice;
+    const deviceName = getDeviceName(selectedDevice);
+    if (warnIfDeviceBusy(deviceId, deviceName)) {
+      return;
+    }
+    if (!(await runProfilePreLaunch(target, getSessionConsole(deviceId, deviceName)))) {
+      return;
+    }
 
-    runProcess.on("close", (code) => {
-      output.appendLine(`\n[exit] flutter run finished with code ${code ?? "unknown"}`);
-      void stopRun(context);
+    let profile = target.profile;
+    if (deviceId === "web-server" && profile.webPort === undefined) {
+      profile = { ...profile, webPort: await getPinnedWebPort(context, profile.name) };
+    }
+    await launchRunSession(context, {
+      folder: target.folder,
+      profile,
+      historyProfile: { ...target.historyProfile, webPort: profile.webPort },
+      deviceId,
+      deviceName,
+      selectedDeviceId: selectedDevice,
+      opensInTab: forceWebInTab && selectedIsWeb
     });
   } finally {
     isRunStarting = false;
@@ -263,233 +584,1664 @@ async function startFlutterRun(
   }
 }
 
-async function stopRun(context: vscode.ExtensionContext = extensionCtx): Promise<void> {
-  if (runProcess) {
-    runProcess.kill("SIGTERM");
-    runProcess = undefined;
-  }
-  latestDevToolsUrl = undefined;
-  latestWebAppUrl = undefined;
-  hasOpenedWebPreviewForRun = false;
-  currentRunIsWeb = false;
-  currentRunOpensInTab = false;
-  await vscode.commands.executeCommand("setContext", HAS_DEVTOOLS_URL_CONTEXT_KEY, false);
-
-  await setRunningState(context, false);
-  await updateStatusBar(context);
-}
+async function runOnMultipleDevices(context: vscode.ExtensionContext): Promise<void> {
+  if (isRunStarting) {
+    void vscode.window.showWarningMessage("Flutter run is already starting. Please wait.");
+    return;
+  }
 
-async function selectProfile(context: vscode.ExtensionContext): Promise<void> {
-  const profiles = getProfiles();
-  if (!profiles.length) {
-    const created = await showProfileForm(context, undefined);
-    if (!created) {
+  isRunStarting = true;
+  await setStartingState(context, true);
+  try {
+    const target = await resolveRunTarget();
+    if (!target) {
       return;
     }
-    await saveProfiles([created]);
-    await setActiveProfile(created.name, context);
-    return;
-  }
 
-  const activeName = vscode.workspace
-    .getConfiguration("flutterRunner")
-    .get<string>("activeProfile", "default");
+    const devices = await getAvailableDevices("Loading Flutter devices...");
+    const busyDeviceIds = new Set(Array.from(runSessions.values()).map((session) => session.deviceId));
+    const available = devices.filter((device) => device.isSupported !== false && !busyDeviceIds.has(device.id));
+    if (!available.length) {
+      void vscode.window.showWarningMessage(
+        devices.length
+          ? "Every connected Flutter device already has an active run."
+          : "No Flutter devices found. Connect a device or start an emulator first."
+      );
+      return;
+    }
 
-  const selected = await vscode.window.showQuickPick<{
-    label: string;
-    description?: string;
-    action: "select" | "create" | "edit" | "delete";
-    profile?: RunProfile;
-  }>(
-    [
-      ...profiles.map((profile) => ({
-        label: profile.name,
-        description: `${(profile.dartEntrypoint || "").trim() || "lib/main.dart"} | flavor: ${
-          (profile.flavor || "").trim() || "none"
-        }${profile.name === activeName ? " | active" : ""}`,
-        action: "select" as const,
-        profile
+    const picked = await vscode.window.showQuickPick(
+      available.map((device) => ({
+        label: device.name,
+        description: describeDevice(device),
+        picked: device.id === selectedDeviceId,
+        device
       })),
       {
-        label: "$(add) Add new profile",
-        description: "Create a profile with all fields in one form",
-        action: "create" as const
-      },
-      {
-        label: "$(edit) Edit profile",
-        description: "Edit a profile in a single form",
-        action: "edit" as const
-      },
-      {
-        label: "$(trash) Delete profile",
-        description: "Remove a profile",
-        action: "delete" as const
+        title: `Run "${target.profile.name}" on multiple devices`,
+        canPickMany: true,
+        matchOnDescription: true,
+        placeHolder: "Choose the devices to start a run session on"
       }
-    ],
-    {
-      title: "Flutter Runner Profiles",
-      matchOnDescription: true,
-      placeHolder: "Choose active profile or manage profiles"
+    );
+    if (!picked || !picked.length) {
+      return;
+    }
+    // Steps run once; their output goes to the console of the first device.
+    if (!(await runProfilePreLaunch(target, getSessionConsole(picked[0].device.id, picked[0].device.name)))) {
+      return;
+    }
+
+    for (const item of picked) {
+      await launchRunSession(context, {
+        folder: target.folder,
+        profile: target.profile,
+        historyProfile: target.historyProfile,
+        deviceId: item.device.id,
+        deviceName: item.device.name,
+        selectedDeviceId: item.device.id,
+        opensInTab: false
+      });
     }
+  } finally {
+    isRunStarting = false;
+    await setStartingState(context, false);
+    await updateStatusBar(context);
+  }
+}
+
+/** Runs the profile's `preLaunch` steps; returns false (after telling the user) when a step failed. */
+async function runProfilePreLaunch(
+  target: { folder: string; profile: RunProfile },
+  runConsole: RunConsole
+): Promise<boolean> {
+  const steps = target.profile.preLaunch ?? [];
+  if (!steps.length) {
+    return true;
+  }
+
+  runConsole.projectFolder = target.folder;
+  const failure = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Running pre-launch steps...", cancellable: true },
+    (_progress, token) =>
+      runPreLaunchSteps(steps, { folder: target.folder, env: target.profile.env, log: runConsole, token })
   );
+  if (!failure) {
+    return true;
+  }
+  if (failure.cancelled) {
+    return false;
+  }
 
-  if (!selected) {
-    return;
+  const selection = await vscode.window.showErrorMessage(
+    `Pre-launch step "${failure.step}" failed (${failure.reason}). The Flutter run was not started.`,
+    "Show Run Console"
+  );
+  if (selection === "Show Run Console") {
+    runConsole.show();
   }
+  return false;
+}
 
-  if (selected.action === "select" && selected.profile) {
-    await setActiveProfile(selected.profile.name, context);
-    return;
+/** Keeps the preview URL stable across runs: profiles without `webPort` get a port remembered per profile. */
+async function getPinnedWebPort(context: vscode.ExtensionContext, profileName: string): Promise<number> {
+  const ports = context.workspaceState.get<Record<string, number>>(WEB_PORTS_STATE_KEY, {});
+  const pinned = ports[profileName];
+  if (pinned !== undefined) {
+    return pinned;
   }
+  const port = await findFreePort();
+  await context.workspaceState.update(WEB_PORTS_STATE_KEY, { ...ports, [profileName]: port });
+  output.appendLine(`[web] Pinned --web-port=${port} for profile "${profileName}".`);
+  return port;
+}
 
-  if (selected.action === "create") {
-    const created = await showProfileForm(context, undefined);
-    if (!created) {
-      return;
-    }
-    const current = getProfiles();
-    if (current.some((item) => item.name === created.name)) {
-      void vscode.window.showErrorMessage(`Profile "${created.name}" already exists.`);
-      return;
-    }
-    await saveProfiles([...current, created]);
-    await setActiveProfile(created.name, context);
+async function attachToFlutterApp(context: vscode.ExtensionContext, options?: AttachOptions): Promise<void> {
+  if (isRunStarting) {
+    void vscode.window.showWarningMessage("Flutter run is already starting. Please wait.");
     return;
   }
 
-  if (selected.action === "edit") {
-    const target = await pickProfile("Select profile to edit");
+  isRunStarting = true;
+  await setStartingState(context, true);
+  try {
+    const target = await resolveRunTarget();
     if (!target) {
       return;
     }
-    const updated = await showProfileForm(context, target);
-    if (!updated) {
-      return;
-    }
-    const profilesAfterEdit = getProfiles().map((item) => {
-      if (item.name !== target.name) {
-        return item;
+    const selectedDevice = await resolveSelectedDeviceId();
+    if (!selectedDevice) {
+      const selection = await vscode.window.showWarningMessage(
+        "Select the device the app is running on before attaching.",
+        "Select Device"
+      );
+      if (selection === "Select Device") {
+        await vscode.commands.executeCommand("flutterRunner.selectDevice");
       }
-      return updated;
-    });
-    if (
-      updated.name !== target.name &&
-      profilesAfterEdit.filter((item) => item.name === updated.name).length > 1
-    ) {
-      void vscode.window.showErrorMessage(`Profile "${updated.name}" already exists.`);
       return;
     }
-    await saveProfiles(profilesAfterEdit);
-    const active = vscode.workspace
-      .getConfiguration("flutterRunner")
-      .get<string>("activeProfile", "default");
-    if (active === target.name) {
-      await setActiveProfile(updated.name, context);
-    } else {
-      await updateStatusBar(context);
-      void vscode.window.showInformationMessage(`Profile "${updated.name}" updated.`);
+    if (isWebDeviceId(selectedDevice)) {
+      void vscode.window.showWarningMessage("Attaching to Web apps is not supported by flutter attach.");
+      return;
     }
-    return;
-  }
 
-  if (selected.action === "delete") {
-    const target = await pickProfile("Select profile to delete");
-    if (!target) {
+    const attach = options ?? (await pickAttachOptions());
+    if (!attach) {
       return;
     }
-    await deleteProfile(context, target);
+    await launchRunSession(context, {
+      folder: target.folder,
+      profile: target.profile,
+      historyProfile: target.historyProfile,
+      deviceId: selectedDevice,
+      deviceName: getDeviceName(selectedDevice),
+      selectedDeviceId: selectedDevice,
+      opensInTab: false,
+      attach
+    });
+  } finally {
+    isRunStarting = false;
+    await setStartingState(context, false);
+    await updateStatusBar(context);
   }
 }
 
-async function deleteProfile(context: vscode.ExtensionContext, profile: RunProfile): Promise<void> {
-  const confirmation = await vscode.window.showWarningMessage(
-    `Delete profile "${profile.name}"?`,
-    { modal: true },
-    "Delete"
+async function pickAttachOptions(): Promise<AttachOptions | undefined> {
+  const selected = await vscode.window.showQuickPick(
+    [
+      { label: "Find the app on the device", description: "flutter attach", target: "discover" as const },
+      { label: "Enter VM Service URL...", description: "--debug-url", target: "debugUrl" as const },
+      { label: "Enter application id...", description: "--app-id", target: "appId" as const }
+    ],
+    { title: "Attach to a running Flutter app" }
   );
-  if (confirmation !== "Delete") {
-    return;
+  if (!selected) {
+    return undefined;
   }
+  if (selected.target === "discover") {
+    return {};
+  }
+  if (selected.target === "debugUrl") {
+    const debugUrl = await vscode.window.showInputBox({
+      title: "VM Service URL",
+      prompt: "The URL printed by the app, for example http://127.0.0.1:50300/abcdef=/",
+      validateInput: (value) =>
+        /^(?:https?|wss?):\/\/\S+$/.test(value.trim()) ? undefined : "Enter an http:// or ws:// URL."
+    });
+    return debugUrl ? { debugUrl: debugUrl.trim() } : undefined;
+  }
+  const appId = await vscode.window.showInputBox({
+    title: "Application id",
+    prompt: "Android package name or iOS bundle identifier, for example com.example.app",
+    validateInput: (value) => (value.trim() ? undefined : "Enter an application id.")
+  });
+  return appId ? { appId: appId.trim() } : undefined;
+}
 
-  const remaining = getProfiles().filter((item) => item.name !== profile.name);
-  await saveProfiles(remaining);
-
-  const active = vscode.workspace.getConfiguration("flutterRunner").get<string>("activeProfile", "default");
-  if (active === profile.name) {
-    const fallback = remaining[0]?.name ?? "default";
-    await vscode.workspace
-      .getConfiguration()
-      .update("flutterRunner.activeProfile", fallback, vscode.ConfigurationTarget.Workspace);
+async function resolveRunTarget(): Promise<
+  { folder: string; profile: RunProfile; historyProfile: RunProfile } | undefined
+> {
+  let folder = await resolveFlutterProjectFolderPath();
+  if (!getSelectedAppPath()) {
+    // With several apps in the workspace, ask once instead of guessing.
+    const apps = await discoverFlutterApps();
+    if (apps.length > 1) {
+      folder = await pickFlutterApp(extensionCtx, apps, "Select the Flutter app to run");
+      if (!folder) {
+        return undefined;
+      }
+    }
+  }
+  if (!folder) {
+    void vscode.window.showErrorMessage(
+      "No Flutter app/package project detected. Open a workspace with a valid pubspec.yaml (including Flutter Web/custom package setups)."
+    );
+    return undefined;
   }
 
-  await updateStatusBar(context);
-  void vscode.window.showInformationMessage(`Profile "${profile.name}" deleted.`);
-}
+  await refreshProjectProfiles(folder);
+  const activeProfile = getActiveProfile() ?? getProfiles()[0];
+  if (!activeProfile) {
+    void vscode.window.showErrorMessage(
+      "No Flutter Runner profiles configured. Add at least one profile in settings."
+    );
+    return undefined;
+  }
 
-async function setActiveProfile(name: string, context: vscode.ExtensionContext): Promise<void> {
-  await vscode.workspace
-    .getConfiguration()
-    .update("flutterRunner.activeProfile", name, vscode.ConfigurationTarget.Workspace);
+  const profile = expandProfileVariables(activeProfile, folder);
+  if (profile.appPath) {
+    const boundFolder = resolveProfileAppPath(profile.appPath, folder);
+    if (!(await isFlutterProject(boundFolder))) {
+      void vscode.window.showErrorMessage(
+        `Profile "${profile.name}" is bound to "${profile.appPath}", which is not a Flutter project.`
+      );
+      return undefined;
+    }
+    folder = boundFolder;
+  }
 
-  await updateStatusBar(context);
-  void vscode.window.showInformationMessage(`Active profile: ${name}`);
+  return { folder, profile, historyProfile: expandProfileVariables(activeProfile, folder, true) };
 }
 
-async function saveProfiles(profiles: RunProfile[]): Promise<void> {
-  await vscode.workspace
-    .getConfiguration()
-    .update("flutterRunner.profiles", profiles, vscode.ConfigurationTarget.Workspace);
+/**
+ * Warns when a run is already active on the device. Run commands check this before the pre-launch steps,
+ * which would otherwise run against the live app.
+ */
+function warnIfDeviceBusy(deviceId: string, deviceName: string): boolean {
+  if (!Array.from(runSessions.values()).some((session) => session.deviceId === deviceId)) {
+    return false;
+  }
+  void vscode.window.showWarningMessage(`A Flutter run is already active on ${deviceName}.`);
+  return true;
 }
 
-async function updateStatusBar(context: vscode.ExtensionContext): Promise<void> {
-  const folder = await resolveFlutterProjectFolderPath();
-  const flutter = Boolean(folder);
-  await vscode.commands.executeCommand("setContext", FLUTTER_CONTEXT_KEY, flutter);
-
-  if (!flutter) {
-    selectedDeviceId = undefined;
-    latestDevToolsUrl = undefined;
-    await vscode.commands.executeCommand("setContext", HAS_SELECTED_DEVICE_CONTEXT_KEY, false);
-    await vscode.commands.executeCommand("setContext", HAS_WEB_DEVICE_CONTEXT_KEY, false);
-    await vscode.commands.executeCommand("setContext", HAS_DEVTOOLS_URL_CONTEXT_KEY, false);
-    runButton.hide();
-    runWebTabButton.hide();
-    stopButton.hide();
-    devToolsButton.hide();
-    profileButton.hide();
-    return;
+async function launchRunSession(
+  context: vscode.ExtensionContext,
+  options: LaunchOptions
+): Promise<RunSession | undefined> {
+  const { folder, profile, deviceId, attach } = options;
+  if (warnIfDeviceBusy(deviceId, options.deviceName)) {
+    return undefined;
   }
 
-  runButton.show();
-  runWebTabButton.hide();
-  if (runProcess) {
-    stopButton.show();
-    devToolsButton.show();
-    devToolsButton.tooltip = latestDevToolsUrl
-      ? "Open Flutter DevTools in editor tab"
-      : "Waiting for Flutter DevTools URL...";
-  } else {
-    stopButton.hide();
-    devToolsButton.hide();
+  const entrypoint = (profile.dartEntrypoint || "").trim() || "lib/main.dart";
+  const flavor = (profile.flavor || "").trim();
+  const buildArgs = (from: RunProfile) =>
+    attach
+      ? ["attach", "--machine", ...buildFlutterAttachArgs(from, deviceId, attach)]
+      : ["run", "--machine", ...buildFlutterRunArgs(from, deviceId)];
+  const args = buildArgs(profile);
+  const historyProfile = options.historyProfile ?? profile;
+  const defineKeys = Object.keys(profile.dartDefines ?? {});
+  const envKeys = Object.keys(profile.env ?? {});
+
+  clearRunProblems(deviceId);
+  const sessionOutput = getSessionOutputChannel(deviceId, options.deviceName);
+  const sessionConsole = getSessionConsole(deviceId, options.deviceName);
+  sessionConsole.projectFolder = folder;
+  const sessionId = `session-${nextRunSessionId++}`;
+  // The session counter starts over with every activation; the time keeps ids unique across them.
+  const historyId = `run-${Date.now()}-${sessionId}`;
+  const runLog = await createRunLog(getRunLogFolder(context), historyId);
+  const tee = runLog ? (text: string) => runLog.log.write(text) : undefined;
+  sessionConsole.tee = tee;
+  sessionOutput.show(true);
+  sessionConsole.appendLine("extension", "");
+  sessionConsole.appendLine("extension", "=== Flutter Runner ===");
+  sessionConsole.appendLine("extension", `Profile: ${profile.name}`);
+  if (attach) {
+    sessionConsole.appendLine("extension", "Mode: attach");
   }
-  profileButton.show();
-  selectedDeviceId = await resolveSelectedDeviceId();
-  const hasDevice = Boolean(selectedDeviceId);
-  const hasWebDevice = Boolean(selectedDeviceId && isWebDeviceId(selectedDeviceId));
+  sessionConsole.appendLine("extension", `Device: ${deviceId}`);
+  if (deviceId !== options.selectedDeviceId) {
+    sessionConsole.appendLine("extension", `Selected device: ${options.selectedDeviceId}`);
+  }
+  sessionConsole.appendLine("extension", `Entrypoint: ${entrypoint}`);
+  sessionConsole.appendLine("extension", `Flavor: ${flavor || "none"}`);
+  sessionConsole.appendLine("extension", `Build mode: ${profile.buildMode ?? "debug"}`);
+  if (defineKeys.length > 0) {
+    sessionConsole.appendLine("extension", `Dart defines: ${defineKeys.join(", ")}`);
+  }
+  if (envKeys.length > 0) {
+    sessionConsole.appendLine("extension", `Environment: ${envKeys.join(", ")}`);
+  }
+  if (options.opensInTab) {
+    sessionConsole.appendLine("extension", "Web mode: editor tab");
+  }
+  sessionConsole.appendLine("extension", `Command: flutter ${formatArgsForLog(args)}`);
+  sessionConsole.appendLine("extension", "");
+
+  const child = spawn("flutter", args, {
+    cwd: folder,
+    env: { ...process.env, ...(profile.env ?? {}) },
+    shell: false,
+    ...PROCESS_GROUP_SPAWN_OPTIONS
+  });
+  const stopItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 198);
+  stopItem.command = { title: "Stop", command: "flutterRunner.stopSession", arguments: [sessionId] };
+  const session: RunSession = {
+    id: sessionId,
+    mode: attach ? "attach" : "run",
+    launch: options,
+    startedAt: Date.now(),
+    historyId,
+    deviceId,
+    deviceName: options.deviceName,
+    profile,
+    folder,
+    process: child,
+    daemon: createFlutterDaemon(child, {
+      onEvent: (event) => {
+        if (runSessions.get(sessionId) === session) {
+          void handleDaemonEvent(session, event);
+        }
+      },
+      onText: (line) => {
+        sessionConsole.appendLine("build", line);
+        if (runSessions.get(sessionId) === session) {
+          noteLostConnection(session, line);
+          void captureVmServiceFromText(session, line);
+        }
+      }
+    }),
+    output: sessionOutput,
+    console: sessionConsole,
+    stopButton: stopItem,
+    isWeb: isWebDeviceId(options.selectedDeviceId),
+    opensInTab: options.opensInTab,
+    hasOpenedWebPreview: false,
+    hotReloadQueued: false
+  };
+  runSessions.set(sessionId, session);
+  const { startedAt } = session;
+  updateRunHistory((records) => [
+    {
+      id: historyId,
+      attach,
+      profile: historyProfile,
+      args: buildArgs(historyProfile),
+      deviceId,
+      deviceName: options.deviceName,
+      folder,
+      startedAt,
+      logFile: runLog?.filePath
+    },
+    ...records
+  ]);
+  const finishRecord = (exitCode: number | null, exitKind: RunExitKind) => {
+    if (sessionConsole.tee === tee) {
+      sessionConsole.tee = undefined;
+    }
+    void runLog?.log.close();
+    const stoppedAt = Date.now();
+    updateRunHistory((records) =>
+      records.map((record) =>
+        record.id === historyId && record.stoppedAt === undefined
+          ? { ...record, stoppedAt, exitCode, exitKind, durationMs: stoppedAt - startedAt }
+          : record
+      )
+    );
+  };
+  if (profile.buildRunnerWatch) {
+    startBuildRunnerWatchForSession(session);
+  }
+
+  await setRunningState(context, true);
+
+  child.stderr.setEncoding("utf8");
+  child.stderr.on("data", (text: string) => {
+    sessionConsole.appendText("build", text);
+  });
+
+  child.on("error", (error) => {
+    if (child.pid !== undefined) {
+      sessionConsole.appendLine("error", `\n[error] ${error.message}`);
+      return;
+    }
+    // Spawning failed; `close` follows and reports the run as failedToStart, with this line in the notification.
+    session.spawnFailed = true;
+    sessionConsole.appendLine(
+      "error",
+      `\n[error] ${error.message}. Make sure \`flutter\` is installed and in PATH.`
+    );
+  });
+
+  child.on("close", (code) => {
+    sessionConsole.appendLine("extension", `\n[exit] flutter ${args[0]} finished with code ${code ?? "unknown"}`);
+    const stoppedByUser =
+      !session.spawnFailed && (Boolean(session.stopping) || runSessions.get(sessionId) !== session);
+    const exitKind = classifyRunExit({
+      code,
+      stoppedByUser,
+      started: Boolean(session.started),
+      // A physical device that disappeared from device discovery took the app with it.
+      lostConnection:
+        !session.spawnFailed &&
+        (Boolean(session.lostConnection) || (!session.isWeb && !isDeviceConnected(deviceId))),
+      appError: session.appStopError
+    });
+    finishRecord(code, exitKind);
+    if (!stoppedByUser) {
+      void stopSession(context, session);
+      void handleUnexpectedExit(context, session, exitKind, code);
+    }
+  });
+
+  return session;
+}
+
+/** Builds the `flutter run` options for a profile; `run --machine` is added by the caller. */
+function buildFlutterRunArgs(profile: RunProfile, deviceId: string): string[] {
+  const args: string[] = [];
+  args.push("-t", (profile.dartEntrypoint || "").trim() || "lib/main.dart");
+  args.push("-d", deviceId);
+
+  args.push(...buildFlavorAndDefineArgs(profile));
+  if (profile.buildMode && profile.buildMode !== "debug") {
+    args.push(`--${profile.buildMode}`);
+  }
+  if (isWebDeviceId(deviceId)) {
+    if (profile.webPort !== undefined) {
+      args.push(`--web-port=${profile.webPort}`);
+    }
+    if (profile.webHostname) {
+      args.push(`--web-hostname=${profile.webHostname}`);
+    }
+    if (profile.webRenderer) {
+      args.push(`--web-renderer=${profile.webRenderer}`);
+    }
+  }
+  if (profile.deviceVmServicePort !== undefined) {
+    args.push(`--device-vmservice-port=${profile.deviceVmServicePort}`);
+  }
+  args.push(...(profile.extraArgs ?? []));
+  return args;
+}
+
+/** Builds the `flutter attach` options; `attach --machine` is added by the caller. */
+function buildFlutterAttachArgs(profile: RunProfile, deviceId: string, attach: AttachOptions): string[] {
+  const args = ["-t", (profile.dartEntrypoint || "").trim() || "lib/main.dart", "-d", deviceId];
+  args.push(...buildFlavorAndDefineArgs(profile));
+  if (attach.debugUrl) {
+    args.push(`--debug-url=${attach.debugUrl}`);
+  } else if (attach.appId) {
+    args.push(`--app-id=${attach.appId}`);
+  }
+  if (profile.deviceVmServicePort !== undefined) {
+    args.push(`--device-vmservice-port=${profile.deviceVmServicePort}`);
+  }
+  return args;
+}
+
+function getRunLogFolder(context: vscode.ExtensionContext): string {
+  return path.join((context.storageUri ?? context.globalStorageUri).fsPath, "run-logs");
+}
+
+function getRunHistory(): RunRecord[] {
+  return extensionCtx.workspaceState.get<RunRecord[]>(RUN_HISTORY_STATE_KEY, []);
+}
+
+/** Applies `update` to the history, keeps the last entries and only the newest log files. */
+function updateRunHistory(update: (records: RunRecord[]) => RunRecord[]): Promise<void> {
+  runHistoryUpdate = runHistoryUpdate
+    .then(async () => {
+      const updated = update(getRunHistory());
+      const logsToKeep = vscode.workspace.getConfiguration("flutterRunner").get<number>("runLogsToKeep", 10);
+      const kept = await pruneRunLogs(updated, Math.max(0, logsToKeep));
+      for (const dropped of kept.slice(RUN_HISTORY_LIMIT)) {
+        if (dropped.logFile) {
+          await fs.rm(dropped.logFile, { force: true }).catch(() => undefined);
+        }
+      }
+      await extensionCtx.workspaceState.update(RUN_HISTORY_STATE_KEY, kept.slice(0, RUN_HISTORY_LIMIT));
+      runHistoryTree.refresh();
+    })
+    .catch((error: unknown) => {
+      output.appendLine(`[history] Could not update run history: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  return runHistoryUpdate;
+}
+
+async function pickRunRecord(title: string, filter: (record: RunRecord) => boolean = () => true): Promise<RunRecord | undefined> {
+  const records = getRunHistory().filter(filter);
+  if (!records.length) {
+    void vscode.window.showInformationMessage("No recent Flutter runs.");
+    return undefined;
+  }
+  const selected = await vscode.window.showQuickPick(
+    records.map((record) => ({
+      label: `${record.profile.name} on ${record.deviceName}`,
+      description: new Date(record.startedAt).toLocaleString(),
+      detail: vscode.workspace.asRelativePath(record.folder, true),
+      record
+    })),
+    { title, matchOnDescription: true }
+  );
+  return selected?.record;
+}
+
+async function runAgain(context: vscode.ExtensionContext, record?: RunRecord): Promise<void> {
+  const target = record ?? (await pickRunRecord("Select run to start again"));
+  if (!target) {
+    return;
+  }
+  await startLaunch(context, {
+    folder: target.folder,
+    // The saved profile keeps `${env:NAME}`; read the environment again.
+    profile: expandProfileVariables(target.profile, target.folder),
+    historyProfile: target.profile,
+    deviceId: target.deviceId,
+    deviceName: target.deviceName,
+    selectedDeviceId: target.deviceId,
+    opensInTab: target.deviceId === "web-server",
+    attach: target.attach
+  });
+}
+
+/** Starts a known launch like the Run command does: one start at a time, after the profile's pre-launch steps. */
+async function startLaunch(context: vscode.ExtensionContext, launch: LaunchOptions): Promise<void> {
+  if (isRunStarting) {
+    void vscode.window.showWarningMessage("Flutter run is already starting. Please wait.");
+    return;
+  }
+
+  if (warnIfDeviceBusy(launch.deviceId, launch.deviceName)) {
+    return;
+  }
+
+  isRunStarting = true;
+  await setStartingState(context, true);
+  try {
+    const runConsole = getSessionConsole(launch.deviceId, launch.deviceName);
+    if (!launch.attach && !(await runProfilePreLaunch(launch, runConsole))) {
+      return;
+    }
+    await launchRunSession(context, launch);
+  } finally {
+    isRunStarting = false;
+    await setStartingState(context, false);
+    await updateStatusBar(context);
+  }
+}
+
+async function copyRunCommand(record?: RunRecord): Promise<void> {
+  const target = record ?? (await pickRunRecord("Select run to copy the command of"));
+  if (!target) {
+    return;
+  }
+  await vscode.env.clipboard.writeText(formatRunCommand(target));
+  vscode.window.setStatusBarMessage("$(copy) Flutter command copied", 3000);
+}
+
+async function openRunLog(record?: RunRecord): Promise<void> {
+  const target = record ?? (await pickRunRecord("Select run to open the log of", (item) => Boolean(item.logFile)));
+  if (!target?.logFile) {
+    return;
+  }
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(target.logFile));
+    await vscode.window.showTextDocument(document, { preview: true });
+  } catch {
+    void vscode.window.showWarningMessage("The log of this run is no longer available.");
+  }
+}
+
+async function clearRunHistory(): Promise<void> {
+  const active = new Set(Array.from(runSessions.values()).map((session) => session.historyId));
+  await updateRunHistory((records) => {
+    for (const record of records) {
+      if (record.logFile && !active.has(record.id)) {
+        void fs.rm(record.logFile, { force: true }).catch(() => undefined);
+      }
+    }
+    return records.filter((record) => active.has(record.id));
+  });
+}
+
+function buildFlavorAndDefineArgs(profile: RunProfile): string[] {
+  const args: string[] = [];
+  const flavor = (profile.flavor || "").trim();
+  if (flavor.length > 0) {
+    args.push("--flavor", flavor);
+  }
+  for (const [key, value] of Object.entries(profile.dartDefines ?? {})) {
+    args.push(`--dart-define=${key}=${value}`);
+  }
+  if (profile.dartDefineFromFile) {
+    args.push(`--dart-define-from-file=${profile.dartDefineFromFile}`);
+  }
+  return args;
+}
+
+/** Hides dart-define values (often API keys) when echoing the command line. */
+function formatArgsForLog(args: string[]): string {
+  return args
+    .map((arg) => arg.replace(/^(--dart-define=[^=]+=).*$/, "$1***"))
+    .map((arg) => (/\s/.test(arg) ? JSON.stringify(arg) : arg))
+    .join(" ");
+}
+
+function getSessionOutputChannel(deviceId: string, deviceName: string): vscode.OutputChannel {
+  let channel = sessionOutputChannels.get(deviceId);
+  if (!channel) {
+    channel = vscode.window.createOutputChannel(`Flutter Runner (${deviceName})`);
+    sessionOutputChannels.set(deviceId, channel);
+  }
+  return channel;
+}
+
+function getSessionConsole(deviceId: string, deviceName: string): RunConsole {
+  let runConsole = sessionConsoles.get(deviceId);
+  if (!runConsole) {
+    runConsole = createRunConsole(
+      `Flutter Run: ${deviceName}`,
+      getSessionOutputChannel(deviceId, deviceName),
+      (entry) => {
+        const problems = parseRunProblems(entry);
+        if (problems.length) {
+          void reportRunProblems(deviceId, problems);
+        }
+      }
+    );
+    sessionConsoles.set(deviceId, runConsole);
+  }
+  return runConsole;
+}
+
+async function stopRun(context: vscode.ExtensionContext = extensionCtx): Promise<void> {
+  cancelPendingRelaunches();
+  await Promise.all(Array.from(runSessions.values()).map((session) => stopSession(context, session)));
+  reloadStatusItem.hide();
+  await setRunningState(context, runSessions.size > 0);
+  await updateStatusBar(context);
+}
+
+/** Stops the session and resolves once its process has exited; repeated calls share the same stop. */
+function stopSession(context: vscode.ExtensionContext, session: RunSession): Promise<void> {
+  if (runSessions.get(session.id) !== session) {
+    return Promise.resolve();
+  }
+  session.stopping ??= (async () => {
+    void updateStatusBar(context, "stopping run");
+    await shutDownSessionProcess(session);
+    await releaseSession(context, session);
+  })();
+  return session.stopping;
+}
+
+/**
+ * Asks Flutter to stop the app (`app.stop`, or `app.detach` for attach sessions, which leaves the app running),
+ * waits up to `flutterRunner.stopTimeoutMs` for the tool to exit and then kills its whole process tree.
+ */
+async function shutDownSessionProcess(session: RunSession): Promise<void> {
+  const child = session.process;
+  if (hasExited(child)) {
+    return;
+  }
+  const timeoutMs = Math.max(
+    0,
+    vscode.workspace.getConfiguration("flutterRunner").get<number>("stopTimeoutMs", 5000)
+  );
+  session.console.appendLine("extension", `[stop] Stopping on ${session.deviceName}...`);
+  if (session.appId) {
+    session.daemon
+      .sendRequest(session.mode === "attach" ? "app.detach" : "app.stop", { appId: session.appId })
+      .catch((error: unknown) => {
+        session.console.appendLine(
+          "extension",
+          `[stop] ${session.mode === "attach" ? "app.detach" : "app.stop"} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        child.kill("SIGTERM");
+      });
+  } else {
+    // No app yet (still building): SIGTERM lets the tool cancel the build and clean up.
+    child.kill("SIGTERM");
+  }
+  if (!(await waitForExit(child, timeoutMs))) {
+    session.console.appendLine("extension", `[stop] Flutter did not exit within ${timeoutMs}ms; killing its process tree.`);
+    killProcessTree(child, "SIGKILL");
+    await waitForExit(child, KILL_GRACE_MS);
+  }
+}
+
+async function releaseSession(context: vscode.ExtensionContext, session: RunSession): Promise<void> {
+  if (runSessions.get(session.id) !== session) {
+    return;
+  }
+  runSessions.delete(session.id);
+  session.daemon.dispose();
+  void session.vmService?.then((vmService) => vmService.dispose(), () => undefined);
+  session.stopButton.dispose();
+  stopUnusedBuildRunnerWatch(session.folder);
+  if (devToolsSessionId === session.id) {
+    devToolsPanel.setUrl(undefined);
+  }
+  if (webPreviewSessionId === session.id) {
+    webPreviewPanel.setStatus("stopped");
+  }
+
+  if (!runSessions.size) {
+    reloadStatusItem.hide();
+  }
+  await setRunningState(context, runSessions.size > 0);
+  await updateStatusBar(context);
+}
+
+async function stopSessionCommand(context: vscode.ExtensionContext, sessionId?: string): Promise<void> {
+  const session = sessionId ? runSessions.get(sessionId) : await pickRunSession("Select run to stop");
+  if (!session) {
+    if (!sessionId && pendingRelaunches.size) {
+      cancelPendingRelaunches();
+      void vscode.window.showInformationMessage("Pending Flutter relaunch cancelled.");
+      return;
+    }
+    if (!runSessions.size) {
+      void vscode.window.showWarningMessage("No Flutter run is active.");
+    }
+    return;
+  }
+  await stopSession(context, session);
+}
+
+function noteLostConnection(session: RunSession, line: string): void {
+  if (!session.lostConnection && isLostConnectionLine(line)) {
+    session.lostConnection = true;
+  }
+}
+
+/**
+ * Reports a run that ended without Stop. Crashes and lost devices are relaunched when the profile has an
+ * `autoRelaunch` policy (and a relaunch that fails to start keeps retrying); otherwise a notification
+ * with the last error lines offers a restart.
+ */
+async function handleUnexpectedExit(
+  context: vscode.ExtensionContext,
+  session: RunSession,
+  exitKind: RunExitKind,
+  code: number | null
+): Promise<void> {
+  if (exitKind === "stopped") {
+    return;
+  }
+  const description = describeRunExit(exitKind, code);
+  if (exitKind === "exited") {
+    session.console.appendLine("extension", `[exit] The app on ${session.deviceName} ${description}.`);
+    return;
+  }
+
+  const errors = session.console.getRecentErrors(CRASH_NOTIFICATION_ERROR_LINES, session.startedAt);
+  session.console.appendLine("error", `[exit] The app on ${session.deviceName} ${description}.`);
+
+  const policy = session.profile.autoRelaunch;
+  const ranStably = Boolean(session.started) && Date.now() - session.startedAt >= STABLE_RUN_MS;
+  const previousAttempts = ranStably ? 0 : (session.launch.relaunchAttempt ?? 0);
+  const relaunches =
+    session.mode === "run" &&
+    policy !== undefined &&
+    (exitKind !== "failedToStart" || previousAttempts > 0) &&
+    previousAttempts < policy.maxAttempts;
+  if (relaunches) {
+    const attempt = previousAttempts + 1;
+    const delayMs = getRelaunchDelayMs(policy, attempt);
+    session.console.appendLine(
+      "extension",
+      `[relaunch] Relaunching in ${Math.round(delayMs / 1000)}s (attempt ${attempt} of ${policy.maxAttempts}). Stop Run cancels.`
+    );
+    vscode.window.setStatusBarMessage(
+      `$(sync) Flutter app ${description}; relaunching in ${Math.round(delayMs / 1000)}s (${attempt}/${policy.maxAttempts})`,
+      delayMs
+    );
+    scheduleRelaunch(context, { ...session.launch, relaunchAttempt: attempt }, delayMs);
+    return;
+  }
+
+  const summary = errors.length ? ` Last errors: ${errors.join(" | ")}` : "";
+  const gaveUp = policy && previousAttempts >= policy.maxAttempts ? ` Gave up after ${previousAttempts} relaunches.` : "";
+  const selection = await vscode.window.showErrorMessage(
+    `Flutter app on ${session.deviceName} ${description}.${gaveUp}${summary}`,
+    "Restart",
+    "Show Log"
+  );
+  if (selection === "Restart") {
+    await startLaunch(context, { ...session.launch, relaunchAttempt: undefined });
+  } else if (selection === "Show Log") {
+    session.console.show();
+  }
+}
+
+function scheduleRelaunch(context: vscode.ExtensionContext, launch: LaunchOptions, delayMs: number): void {
+  const existing = pendingRelaunches.get(launch.deviceId);
+  if (existing) {
+    clearTimeout(existing);
+  }
+  pendingRelaunches.set(
+    launch.deviceId,
+    setTimeout(() => {
+      pendingRelaunches.delete(launch.deviceId);
+      void launchRunSession(context, launch).then(() => updateStatusBar(context, "app relaunched"));
+    }, delayMs)
+  );
+}
+
+function cancelPendingRelaunches(): void {
+  for (const timer of pendingRelaunches.values()) {
+    clearTimeout(timer);
+  }
+  pendingRelaunches.clear();
+}
+
+function startBuildRunnerWatchForSession(session: RunSession): void {
+  const folder = session.folder;
+  if (buildRunnerWatches.has(folder)) {
+    session.console.appendLine("extension", "[build_runner] Sharing the watch process already running for this app.");
+    return;
+  }
+  session.console.appendLine("extension", "[build_runner] Starting dart run build_runner watch.");
+  const watch = startBuildRunnerWatch(
+    { folder, env: session.profile.env },
+    {
+      log: (level, line) => {
+        for (const folderSession of runSessions.values()) {
+          if (folderSession.folder === folder) {
+            folderSession.console.appendLine(level, `[build_runner] ${line}`);
+          }
+        }
+      },
+      onStateChanged: (state, errors) => {
+        if (buildRunnerWatches.get(folder) === watch) {
+          showBuildRunnerStatus(folder, state, errors);
+        }
+      }
+    }
+  );
+  buildRunnerWatches.set(folder, watch);
+  showBuildRunnerStatus(folder, watch.state, watch.errors);
+}
+
+function stopUnusedBuildRunnerWatch(folder: string): void {
+  const watch = buildRunnerWatches.get(folder);
+  if (!watch || Array.from(runSessions.values()).some((session) => session.folder === folder)) {
+    return;
+  }
+  buildRunnerWatches.delete(folder);
+  watch.dispose();
+  if (!buildRunnerWatches.size) {
+    buildRunnerStatusItem.hide();
+  }
+}
+
+function showBuildRunnerStatus(folder: string, state: BuildRunnerState, errors: string[]): void {
+  const app = buildRunnerWatches.size > 1 ? ` (${path.basename(folder)})` : "";
+  const [icon, text] = {
+    starting: ["$(sync~spin)", "starting"],
+    building: ["$(sync~spin)", "building"],
+    succeeded: ["$(check)", "up to date"],
+    failed: ["$(error)", `failed (${errors.length} ${errors.length === 1 ? "error" : "errors"})`],
+    exited: ["$(circle-slash)", "stopped"]
+  }[state];
+  buildRunnerStatusItem.text = `${icon} build_runner${app}: ${text}`;
+  const detail = errors.slice(0, 5).join("\n\n");
+  buildRunnerStatusItem.tooltip = detail
+    ? `${detail}\n\nClick to show the run console`
+    : "Click to show the run console";
+  const session = Array.from(runSessions.values()).find((candidate) => candidate.folder === folder);
+  buildRunnerStatusItem.command = session
+    ? { title: "Show Run Console", command: "flutterRunner.showRunConsole", arguments: [session.id] }
+    : undefined;
+  buildRunnerStatusItem.backgroundColor =
+    state === "failed" ? new vscode.ThemeColor("statusBarItem.errorBackground") : undefined;
+  buildRunnerStatusItem.show();
+}
+
+async function pickRunSession(
+  title: string,
+  filter: (session: RunSession) => boolean = () => true
+): Promise<RunSession | undefined> {
+  const candidates = Array.from(runSessions.values()).filter(filter);
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+  const selected = await vscode.window.showQuickPick(
+    candidates.map((session) => ({
+      label: session.deviceName,
+      description: `${session.deviceId} | profile: ${session.profile.name}`,
+      session
+    })),
+    { title, matchOnDescription: true }
+  );
+  return selected?.session;
+}
+
+/** The session of a Sessions view item; other arguments (such as the URI editor buttons pass) select nothing. */
+function getSessionNodeId(target: unknown): string | undefined {
+  const node = target as Partial<SessionNode> | undefined;
+  return node && typeof node === "object" && node.kind === "session" ? node.sessionId : undefined;
+}
+
+function getSessionNodes(): SessionNode[] {
+  return Array.from(runSessions.values()).map((session) => ({
+    kind: "session",
+    sessionId: session.id,
+    mode: session.mode,
+    deviceName: session.deviceName,
+    profileName: session.profile.name,
+    folder: session.folder,
+    started: Boolean(session.started),
+    stopping: Boolean(session.stopping),
+    hasDevTools: Boolean(session.devToolsUrl)
+  }));
+}
+
+function showOutput(sessionId?: string): void {
+  const requested = sessionId ? runSessions.get(sessionId) : undefined;
+  if (requested) {
+    requested.output.show(true);
+    return;
+  }
+  const sessions = Array.from(runSessions.values());
+  if (sessions.length === 1) {
+    sessions[0].output.show(true);
+    return;
+  }
+  output.show(true);
+}
+
+async function showRunConsole(sessionId?: string): Promise<void> {
+  const session = sessionId
+    ? runSessions.get(sessionId)
+    : await pickRunSession("Show the run console of which device?");
+  if (session) {
+    session.console.show();
+    return;
+  }
+  if (!sessionId && sessionConsoles.size === 1) {
+    // Keep the console of a finished run readable.
+    Array.from(sessionConsoles.values())[0].show();
+    return;
+  }
+  if (!runSessions.size && !sessionConsoles.size) {
+    void vscode.window.showInformationMessage("Start a Flutter run to open its run console.");
+  }
+}
+
+/** Integration tests run on the selected device with the active profile's flavor, dart-defines and env. */
+async function getIntegrationTestOptions(): Promise<IntegrationTestOptions> {
+  const folder = await resolveFlutterProjectFolderPath();
+  await refreshProjectProfiles(folder);
+  const activeProfile = getActiveProfile() ?? getProfiles()[0];
+  const profile = activeProfile ? expandProfileVariables(activeProfile, folder) : undefined;
+  return {
+    deviceId: await resolveSelectedDeviceId(),
+    args: profile ? buildFlavorAndDefineArgs(profile) : [],
+    env: profile?.env
+  };
+}
+
+async function buildWithActiveProfile(context: vscode.ExtensionContext, requestedTarget?: BuildTarget): Promise<void> {
+  const target = await resolveRunTarget();
+  if (!target) {
+    return;
+  }
+
+  let buildTarget = BUILD_TARGETS.find((item) => item.target === requestedTarget);
+  if (!buildTarget) {
+    const picked = await vscode.window.showQuickPick(
+      BUILD_TARGETS.map((item) => ({
+        label: item.label,
+        description: `flutter build ${item.target}`,
+        detail: item.description,
+        item
+      })),
+      { title: `Build "${target.profile.name}"`, placeHolder: "Choose what to build" }
+    );
+    if (!picked) {
+      return;
+    }
+    buildTarget = picked.item;
+  }
+
+  const args = buildFlutterBuildArgs(buildTarget.target, target.profile, buildFlavorAndDefineArgs(target.profile));
+  output.show(true);
+  output.appendLine("");
+  output.appendLine(`[build] Profile: ${target.profile.name}`);
+  output.appendLine(`[build] flutter ${formatArgsForLog(args)}`);
+
+  const startedAt = Date.now();
+  const result = await execCommand("flutter", args, {
+    showOutput: true,
+    progressTitle: `Building ${buildTarget.label} (${target.profile.name})...`,
+    cwd: target.folder,
+    env: target.profile.env
+  });
+  const record: BuildRecord = {
+    target: buildTarget.target,
+    profileName: target.profile.name,
+    folder: target.folder,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    succeeded: result.ok
+  };
+
+  if (result.ok) {
+    record.artifactPath = parseBuildArtifact(`${result.stdout}\n${result.stderr}`, target.folder);
+    record.sizeBytes = record.artifactPath ? await getArtifactSize(record.artifactPath) : undefined;
+  }
+  const history = context.workspaceState.get<BuildRecord[]>(BUILD_HISTORY_STATE_KEY, []);
+  await context.workspaceState.update(BUILD_HISTORY_STATE_KEY, [record, ...history].slice(0, BUILD_HISTORY_LIMIT));
+
+  if (!result.ok) {
+    output.appendLine(`[build] Failed with exit code ${result.code ?? "unknown"}.`);
+    const selection = await vscode.window.showErrorMessage(
+      `flutter build ${buildTarget.target} failed for profile "${target.profile.name}".`,
+      "Show Output"
+    );
+    if (selection === "Show Output") {
+      output.show(true);
+    }
+    return;
+  }
+
+  output.appendLine(
+    `[build] Finished in ${(record.durationMs / 1000).toFixed(1)}s${record.artifactPath ? `: ${record.artifactPath}` : ""}`
+  );
+  await showBuildArtifact(record);
+}
+
+async function showBuildArtifact(record: BuildRecord): Promise<void> {
+  if (!record.artifactPath) {
+    void vscode.window.showInformationMessage(`flutter build ${record.target} finished for "${record.profileName}".`);
+    return;
+  }
+  const size = record.sizeBytes !== undefined ? ` (${formatSize(record.sizeBytes)})` : "";
+  const selection = await vscode.window.showInformationMessage(
+    `Built ${path.basename(record.artifactPath)}${size} for "${record.profileName}".`,
+    "Reveal in Explorer",
+    "Copy Path"
+  );
+  if (selection === "Reveal in Explorer") {
+    await vscode.commands.executeCommand("revealFileInOS", vscode.Uri.file(record.artifactPath));
+  } else if (selection === "Copy Path") {
+    await vscode.env.clipboard.writeText(record.artifactPath);
+  }
+}
+
+async function showBuildHistory(context: vscode.ExtensionContext): Promise<void> {
+  const history = context.workspaceState.get<BuildRecord[]>(BUILD_HISTORY_STATE_KEY, []);
+  if (!history.length) {
+    void vscode.window.showInformationMessage("No builds yet. Use Flutter Runner: Build with Active Profile.");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    history.map((record) => ({
+      label: `${record.succeeded ? "$(check)" : "$(error)"} ${record.target} | ${record.profileName}`,
+      description: `${new Date(record.startedAt).toLocaleString()} | ${(record.durationMs / 1000).toFixed(1)}s${
+        record.sizeBytes !== undefined ? ` | ${formatSize(record.sizeBytes)}` : ""
+      }`,
+      detail: record.artifactPath ?? (record.succeeded ? undefined : "Build failed"),
+      record
+    })),
+    { title: "Flutter Build History", matchOnDescription: true, matchOnDetail: true }
+  );
+  if (picked?.record.artifactPath) {
+    await showBuildArtifact(picked.record);
+  }
+}
+
+async function runRelatedTests(): Promise<void> {
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  if (!uri || uri.scheme !== "file" || !uri.fsPath.endsWith(".dart")) {
+    void vscode.window.showWarningMessage("Open a Dart file to run its tests.");
+    return;
+  }
+  if (!(await testController.runRelatedTests(uri))) {
+    void vscode.window.showInformationMessage(`No tests found for ${path.basename(uri.fsPath)}.`);
+  }
+}
+
+async function selectProfile(context: vscode.ExtensionContext): Promise<void> {
+  const projectFolder = await resolveFlutterProjectFolderPath();
+  await refreshProjectProfiles(projectFolder);
+  const profiles = getProfiles();
+  if (!profiles.length) {
+    await createProfile(context);
+    return;
+  }
+
+  const activeName = vscode.workspace
+    .getConfiguration("flutterRunner")
+    .get<string>("activeProfile", "default");
+  const sources = new Map(getConfiguredProfileEntries().map((entry) => [entry.profile.name, entry.source]));
+
+  const selected = await vscode.window.showQuickPick<{
+    label: string;
+    description?: string;
+    action: "select" | "create" | "edit" | "delete";
+    profile?: RunProfile;
+  }>(
+    [
+      ...profiles.map((profile) => ({
+        label: profile.name,
+        description: `${describeProfile(expandProfileVariables(profile, projectFolder))}${describeProfileSource(
+          sources.get(profile.name)
+        )}${profile.name === activeName ? " | active" : ""}`,
+        action: "select" as const,
+        profile
+      })),
+      {
+        label: "$(add) Add new profile",
+        description: "Create a profile with all fields in one form",
+        action: "create" as const
+      },
+      {
+        label: "$(edit) Edit profile",
+        description: "Edit a profile in a single form",
+        action: "edit" as const
+      },
+      {
+        label: "$(trash) Delete profile",
+        description: "Remove a profile",
+        action: "delete" as const
+      }
+    ],
+    {
+      title: "Flutter Runner Profiles",
+      matchOnDescription: true,
+      placeHolder: "Choose active profile or manage profiles"
+    }
+  );
+
+  if (!selected) {
+    return;
+  }
+
+  if (selected.action === "select" && selected.profile) {
+    await setActiveProfile(selected.profile.name, context);
+    return;
+  }
+
+  if (selected.action === "create") {
+    await createProfile(context);
+    return;
+  }
+
+  if (selected.action === "edit") {
+    const target = await pickProfile("Select profile to edit");
+    if (target) {
+      await editProfile(context, target);
+    }
+    return;
+  }
+
+  if (selected.action === "delete") {
+    const target = await pickProfile("Select profile to delete");
+    if (!target) {
+      return;
+    }
+    await deleteProfile(context, target);
+  }
+}
+
+async function createProfile(context: vscode.ExtensionContext): Promise<void> {
+  const created = await showProfileForm(context, undefined);
+  if (!created) {
+    return;
+  }
+  const current = getConfiguredProfileEntries().map((entry) => entry.profile);
+  if (current.some((item) => item.name === created.name)) {
+    void vscode.window.showErrorMessage(`Profile "${created.name}" already exists.`);
+    return;
+  }
+  if (!(await saveProfiles([...current, created]))) {
+    return;
+  }
+  await setActiveProfile(created.name, context);
+}
+
+async function editProfile(context: vscode.ExtensionContext, target: RunProfile): Promise<void> {
+  const configured = getConfiguredProfiles();
+  const updated = await showProfileForm(
+    context,
+    configured.find((item) => item.name === target.name) ?? target
+  );
+  if (!updated) {
+    return;
+  }
+  const profilesAfterEdit = configured.map((item) => {
+    if (item.name === target.name) {
+      return updated;
+    }
+    // Keep children pointing at a renamed parent.
+    if (updated.name !== target.name && item.extends === target.name) {
+      return { ...item, extends: updated.name };
+    }
+    return item;
+  });
+  if (
+    updated.name !== target.name &&
+    profilesAfterEdit.filter((item) => item.name === updated.name).length > 1
+  ) {
+    void vscode.window.showErrorMessage(`Profile "${updated.name}" already exists.`);
+    return;
+  }
+  if (!(await saveProfiles(profilesAfterEdit, { from: target.name, to: updated.name }))) {
+    return;
+  }
+  const active = vscode.workspace
+    .getConfiguration("flutterRunner")
+    .get<string>("activeProfile", "default");
+  if (active === target.name) {
+    await setActiveProfile(updated.name, context);
+  } else {
+    await updateStatusBar(context);
+    void vscode.window.showInformationMessage(`Profile "${updated.name}" updated.`);
+  }
+}
+
+/** Copies the profile as configured (not as resolved), so the copy keeps its `extends` and variables. */
+async function duplicateProfile(context: vscode.ExtensionContext, profile: RunProfile): Promise<void> {
+  const configured = getConfiguredProfiles();
+  const names = new Set(configured.map((item) => item.name));
+  let suggestion = `${profile.name} copy`;
+  for (let index = 2; names.has(suggestion); index++) {
+    suggestion = `${profile.name} copy ${index}`;
+  }
+  const name = (
+    await vscode.window.showInputBox({
+      title: `Duplicate profile "${profile.name}"`,
+      prompt: "Name of the new profile",
+      value: suggestion,
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return "Enter a profile name.";
+        }
+        return names.has(value.trim()) ? `Profile "${value.trim()}" already exists.` : undefined;
+      }
+    })
+  )?.trim();
+  if (!name) {
+    return;
+  }
+  const source = configured.find((item) => item.name === profile.name) ?? profile;
+  if (!(await saveProfiles([...configured, { ...source, name }]))) {
+    return;
+  }
+  await updateStatusBar(context);
+  void vscode.window.showInformationMessage(`Profile "${name}" created from "${profile.name}".`);
+}
+
+async function deleteProfile(context: vscode.ExtensionContext, profile: RunProfile): Promise<void> {
+  const children = getConfiguredProfiles()
+    .filter((item) => item.extends === profile.name)
+    .map((item) => `"${item.name}"`);
+  const confirmation = await vscode.window.showWarningMessage(
+    `Delete profile "${profile.name}"?`,
+    {
+      modal: true,
+      detail: children.length ? `Profiles extending it will lose its fields: ${children.join(", ")}.` : undefined
+    },
+    "Delete"
+  );
+  if (confirmation !== "Delete") {
+    return;
+  }
+
+  const remaining = getConfiguredProfiles().filter((item) => item.name !== profile.name);
+  if (!(await saveProfiles(remaining))) {
+    return;
+  }
+
+  const active = vscode.workspace.getConfiguration("flutterRunner").get<string>("activeProfile", "default");
+  if (active === profile.name) {
+    const fallback = remaining[0]?.name ?? "default";
+    await vscode.workspace
+      .getConfiguration()
+      .update("flutterRunner.activeProfile", fallback, vscode.ConfigurationTarget.Workspace);
+  }
+
+  await updateStatusBar(context);
+  void vscode.window.showInformationMessage(`Profile "${profile.name}" deleted.`);
+}
+
+async function setActiveProfile(name: string, context: vscode.ExtensionContext, notify = true): Promise<void> {
+  await vscode.workspace
+    .getConfiguration()
+    .update("flutterRunner.activeProfile", name, vscode.ConfigurationTarget.Workspace);
+
+  await updateStatusBar(context);
+  if (notify) {
+    void vscode.window.showInformationMessage(`Active profile: ${name}`);
+  }
+}
+
+/**
+ * Writes profiles back to the file or settings scope each one was loaded from.
+ * New profiles go to the project profile file when there is one, otherwise to workspace settings.
+ */
+async function saveProfiles(profiles: RunProfile[], renamed?: { from: string; to: string }): Promise<boolean> {
+  const effectiveSources = new Map(getConfiguredProfileEntries().map((entry) => [entry.profile.name, entry.source]));
+  const updatedByName = new Map(profiles.map((profile) => [profile.name, profile]));
+  const written = new Set<string>();
+  const defaultSource: ProfileSource = projectProfiles
+    ? { kind: "projectFile", filePath: projectProfiles.filePath }
+    : { kind: "workspaceSettings" };
+
+  const stores = getProfileStores().map(({ source, profiles: stored }) => {
+    const next: RunProfile[] = [];
+    for (const profile of stored) {
+      if (!isSameProfileSource(effectiveSources.get(profile.name), source)) {
+        // Shadowed by a store with higher precedence: keep it untouched.
+        next.push(profile);
+        continue;
+      }
+      const name = renamed && renamed.from === profile.name ? renamed.to : profile.name;
+      const updated = updatedByName.get(name);
+      if (updated && !written.has(name)) {
+        next.push(updated);
+        written.add(name);
+      }
+    }
+    return { source, previous: stored, next };
+  });
+
+  const added = profiles.filter((profile) => !written.has(profile.name));
+  if (added.length > 0) {
+    const store = stores.find((item) => isSameProfileSource(item.source, defaultSource));
+    if (store) {
+      store.next.push(...added);
+    } else {
+      stores.push({ source: defaultSource, previous: [], next: added });
+    }
+  }
+
+  for (const store of stores) {
+    if (JSON.stringify(store.previous) === JSON.stringify(store.next)) {
+      continue;
+    }
+    if (store.source.kind === "projectFile") {
+      try {
+        await writeProjectProfileFile(store.source.filePath, store.next);
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          `Could not save profiles: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return false;
+      }
+      await refreshProjectProfiles(path.dirname(store.source.filePath), true);
+    } else {
+      await vscode.workspace
+        .getConfiguration()
+        .update(
+          "flutterRunner.profiles",
+          store.next,
+          store.source.kind === "userSettings" ? vscode.ConfigurationTarget.Global : vscode.ConfigurationTarget.Workspace
+        );
+    }
+  }
+  return true;
+}
+
+/**
+ * Every profile store with its raw contents, in order of precedence: the checked-in project file,
+ * then workspace settings, then personal user settings.
+ */
+function getProfileStores(): { source: ProfileSource; profiles: RunProfile[] }[] {
+  const inspected = vscode.workspace.getConfiguration("flutterRunner").inspect<RunProfile[]>("profiles");
+  const validProfiles = (value: RunProfile[] | undefined) =>
+    (Array.isArray(value) ? value : []).filter((profile): profile is RunProfile =>
+      Boolean(profile && typeof profile.name === "string")
+    );
+
+  const stores: { source: ProfileSource; profiles: RunProfile[] }[] = [];
+  if (projectProfiles) {
+    stores.push({
+      source: { kind: "projectFile", filePath: projectProfiles.filePath },
+      profiles: projectProfiles.profiles
+    });
+  }
+  if (inspected?.workspaceValue !== undefined) {
+    stores.push({ source: { kind: "workspaceSettings" }, profiles: validProfiles(inspected.workspaceValue) });
+  }
+  if (inspected?.globalValue !== undefined) {
+    stores.push({ source: { kind: "userSettings" }, profiles: validProfiles(inspected.globalValue) });
+  }
+  return stores;
+}
+
+function isSameProfileSource(left: ProfileSource | undefined, right: ProfileSource): boolean {
+  if (!left || left.kind !== right.kind) {
+    return false;
+  }
+  return left.kind !== "projectFile" || right.kind !== "projectFile" || left.filePath === right.filePath;
+}
+
+function describeProfileSource(source: ProfileSource | undefined): string {
+  if (source?.kind === "projectFile") {
+    return ` | ${path.basename(source.filePath)}`;
+  }
+  if (source?.kind === "userSettings") {
+    return " | user settings";
+  }
+  return "";
+}
+
+function getProfileNodes(): ProfileNode[] {
+  const activeName = getActiveProfile()?.name;
+  const sources = new Map(getConfiguredProfileEntries().map((entry) => [entry.profile.name, entry.source]));
+  return getProfiles().map((profile) => {
+    const source = sources.get(profile.name);
+    return {
+      kind: "profile",
+      profile,
+      active: profile.name === activeName,
+      description: describeProfile(profile),
+      source: describeProfileSource(source).replace(/^ \| /, "") || (source ? "workspace settings" : "")
+    };
+  });
+}
+
+async function refreshProjectProfiles(projectFolder: string | undefined, force = false): Promise<void> {
+  const filePath = projectFolder ? await findProjectProfileFile(projectFolder) : undefined;
+  if (!filePath) {
+    if (projectProfiles) {
+      profileDiagnostics.delete(vscode.Uri.file(projectProfiles.filePath));
+    }
+    projectProfiles = undefined;
+    return;
+  }
+
+  if (!force && projectProfiles?.filePath === filePath) {
+    try {
+      const stat = await fs.stat(filePath);
+      if (stat.mtimeMs === projectProfiles.modifiedAt) {
+        return;
+      }
+    } catch {
+      // Reload below.
+    }
+  }
+
+  const loaded = await loadProfileFile(filePath);
+  if (projectProfiles && projectProfiles.filePath !== filePath) {
+    profileDiagnostics.delete(vscode.Uri.file(projectProfiles.filePath));
+  }
+  projectProfiles = loaded;
+}
+
+async function loadProfileFile(filePath: string): Promise<ProjectProfileFile | undefined> {
+  try {
+    if (!profileFileValidator) {
+      const schemaPath = path.join(extensionCtx.extensionPath, "schemas", "flutter_runner.schema.json");
+      profileFileValidator = createProfileFileValidator(JSON.parse(await fs.readFile(schemaPath, "utf8")) as object);
+    }
+    const loaded = await loadProjectProfileFile(filePath, profileFileValidator);
+    profileDiagnostics.set(
+      vscode.Uri.file(filePath),
+      loaded.problems.map((problem) => {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            problem.start.line,
+            problem.start.character,
+            problem.end.line,
+            problem.end.character
+          ),
+          problem.message,
+          problem.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "Flutter Runner";
+        return diagnostic;
+      })
+    );
+    return loaded;
+  } catch (error) {
+    output.appendLine(
+      `[profiles] Could not read ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+}
+
+async function handleProfileFileChanged(context: vscode.ExtensionContext, uri: vscode.Uri): Promise<void> {
+  const exists = await fs
+    .stat(uri.fsPath)
+    .then(() => true)
+    .catch(() => false);
+  if (!exists) {
+    profileDiagnostics.delete(uri);
+  } else if (uri.fsPath !== projectProfiles?.filePath) {
+    // Validate files of other apps too, so problems show up while editing them.
+    await loadProfileFile(uri.fsPath);
+  }
+  await refreshProjectProfiles(await resolveFlutterProjectFolderPath(), true);
+  await updateStatusBar(context);
+}
+
+/**
+ * Refreshes project, device and run state and re-renders the status bar when it changed.
+ * Calls made during a refresh are coalesced into one follow-up refresh.
+ */
+async function updateStatusBar(context: vscode.ExtensionContext, reason = "state changed"): Promise<void> {
+  queuedRefreshReasons.push(reason);
+  if (isStatusBarRefreshing) {
+    return;
+  }
+
+  isStatusBarRefreshing = true;
+  try {
+    while (queuedRefreshReasons.length > 0) {
+      const reasons = Array.from(new Set(queuedRefreshReasons));
+      queuedRefreshReasons = [];
+      const startedAt = Date.now();
+      const changed = await renderStatusBar(context);
+      logStateRefresh(`${reasons.join(", ")}: ${changed ? "updated" : "unchanged"} in ${Date.now() - startedAt}ms`);
+    }
+  } finally {
+    isStatusBarRefreshing = false;
+  }
+}
+
+/** Returns false without touching the status bar or context keys when nothing visible changed. */
+async function renderStatusBar(context: vscode.ExtensionContext): Promise<boolean> {
+  const folder = await resolveFlutterProjectFolderPath();
+  const flutter = Boolean(folder);
+  await refreshProjectProfiles(folder);
+  const sessions = Array.from(runSessions.values());
+  const deviceId = flutter ? await resolveSelectedDeviceId() : undefined;
+  const selectedDevice = getKnownDevices().find((device) => device.id === deviceId);
+  const activeProfile = getActiveProfile();
+
+  const snapshot = JSON.stringify({
+    folder,
+    pinned: Boolean(folder) && getSelectedAppPath() === folder,
+    sessions: sessions.map((session) => [
+      session.id,
+      session.deviceName,
+      session.profile.name,
+      Boolean(session.started),
+      Boolean(session.stopping),
+      Boolean(session.devToolsUrl),
+      Boolean(session.vmServiceUri)
+    ]),
+    isRunStarting,
+    deviceId,
+    selectedDevice,
+    profile: activeProfile ? [activeProfile.name, activeProfile.dartEntrypoint, activeProfile.flavor] : undefined,
+    profiles: flutter ? getProfiles().map((profile) => [profile.name, describeProfile(profile)]) : [],
+    devices: getKnownDevices().map((device) => device.id)
+  });
+  if (snapshot === lastStatusBarSnapshot) {
+    return false;
+  }
+  lastStatusBarSnapshot = snapshot;
+  selectedDeviceId = deviceId;
+  profilesTree.refresh();
+  devicesTree.refresh();
+  sessionsTree.refresh();
+  await vscode.commands.executeCommand("setContext", FLUTTER_CONTEXT_KEY, flutter);
+
+  if (!flutter) {
+    await vscode.commands.executeCommand("setContext", HAS_SELECTED_DEVICE_CONTEXT_KEY, false);
+    await vscode.commands.executeCommand("setContext", HAS_WEB_DEVICE_CONTEXT_KEY, false);
+    await vscode.commands.executeCommand("setContext", HAS_DEVTOOLS_URL_CONTEXT_KEY, false);
+    runButton.hide();
+    runWebTabButton.hide();
+    devToolsButton.hide();
+    runtimeToolsButton.hide();
+    profileButton.hide();
+    appButton.hide();
+    deviceButton.hide();
+    for (const session of runSessions.values()) {
+      session.stopButton.hide();
+    }
+    return true;
+  }
+
+  const isRunning = sessions.length > 0;
+  const hasDevToolsUrl = sessions.some((session) => Boolean(session.devToolsUrl));
+  await vscode.commands.executeCommand("setContext", HAS_DEVTOOLS_URL_CONTEXT_KEY, hasDevToolsUrl);
+  runButton.show();
+  runWebTabButton.hide();
+  for (const session of sessions) {
+    if (session.stopping) {
+      session.stopButton.text = `$(sync~spin) Stopping${sessions.length > 1 ? ` ${session.deviceName}` : ""}...`;
+      session.stopButton.tooltip = `Waiting for the Flutter run on ${session.deviceName} to exit`;
+    } else {
+      session.stopButton.text = sessions.length > 1 ? `$(debug-stop) ${session.deviceName}` : "$(debug-stop)";
+      session.stopButton.tooltip = `Stop Flutter run on ${session.deviceName} (${session.profile.name})`;
+    }
+    session.stopButton.show();
+  }
+  if (isRunning) {
+    devToolsButton.show();
+    devToolsButton.tooltip = hasDevToolsUrl
+      ? "Open Flutter DevTools in editor tab"
+      : "Waiting for Flutter DevTools URL...";
+  } else {
+    devToolsButton.hide();
+  }
+  if (sessions.some((session) => Boolean(session.vmServiceUri))) {
+    runtimeToolsButton.show();
+  } else {
+    runtimeToolsButton.hide();
+  }
+  profileButton.show();
+  if (folder) {
+    const pinned = getSelectedAppPath() === folder;
+    appButton.text = `$(folder-opened) ${path.basename(folder)}`;
+    appButton.tooltip = `Flutter app: ${vscode.workspace.asRelativePath(folder, true)}${
+      pinned ? "" : " (detected automatically)"
+    }\nClick to select the Flutter app`;
+    appButton.show();
+  }
+  deviceButton.text = `$(device-mobile) ${selectedDevice?.name ?? selectedDeviceId ?? "No device"}`;
+  deviceButton.tooltip = selectedDevice
+    ? `Flutter device: ${selectedDevice.name} (${describeDevice(selectedDevice)})\nClick to select a device`
+    : "Click to select a Flutter device";
+  deviceButton.show();
+  const hasDevice = Boolean(selectedDeviceId);
+  const hasWebDevice = Boolean(selectedDeviceId && isWebDeviceId(selectedDeviceId));
   await vscode.commands.executeCommand("setContext", HAS_SELECTED_DEVICE_CONTEXT_KEY, hasDevice);
   await vscode.commands.executeCommand("setContext", HAS_WEB_DEVICE_CONTEXT_KEY, hasWebDevice);
-  if (runProcess || isRunStarting) {
-    runButton.text = runProcess ? "$(debug-restart)" : "$(sync~spin)";
-    runButton.command = runProcess ? "flutterRunner.run" : undefined;
-    runButton.tooltip = runProcess
-      ? "Hot restart running app"
+  if (isRunning && sessions.every((session) => session.stopping)) {
+    runButton.text = "$(sync~spin)";
+    runButton.command = undefined;
+    runButton.tooltip = "Stopping Flutter run...";
+  } else if (isRunning || isRunStarting) {
+    runButton.text = isRunning ? "$(debug-restart)" : "$(sync~spin)";
+    runButton.command = isRunning ? "flutterRunner.run" : undefined;
+    runButton.tooltip = isRunning
+      ? sessions.length > 1
+        ? `Hot restart ${sessions.length} running apps`
+        : "Hot restart running app"
       : "Starting Flutter run...";
   } else {
     runButton.text = hasDevice ? "$(play)" : "$(circle-slash)";
     runButton.command = hasDevice ? "flutterRunner.run" : undefined;
     runButton.tooltip = hasDevice
-      ? `Run Flutter app on ${selectedDeviceId}`
-      : "Select a Flutter device in the toolbar first";
+      ? `Run Flutter app on ${selectedDevice?.name ?? selectedDeviceId}`
+      : "Select a Flutter device first";
     if (hasWebDevice) {
       runWebTabButton.text = "$(browser) Tab";
       runWebTabButton.command = "flutterRunner.runWebInTab";
@@ -497,7 +2249,6 @@ async function updateStatusBar(context: vscode.ExtensionContext): Promise<void>
       runWebTabButton.show();
     }
   }
-  const activeProfile = getActiveProfile();
   const entrypoint = (activeProfile?.dartEntrypoint || "").trim() || "lib/main.dart";
   const flavor = (activeProfile?.flavor || "").trim();
 
@@ -505,26 +2256,107 @@ async function updateStatusBar(context: vscode.ExtensionContext): Promise<void>
   profileButton.tooltip = `Entrypoint: ${entrypoint}${flavor ? ` | Flavor: ${flavor}` : ""}${
     selectedDeviceId ? ` | Device: ${selectedDeviceId}` : ""
   }`;
+  return true;
 }
 
-function getProfiles(): RunProfile[] {
-  const config = vscode.workspace.getConfiguration("flutterRunner");
-  const profiles = config.get<RunProfile[]>("profiles", []);
-  const normalized = profiles
-    .filter((profile): profile is RunProfile => Boolean(profile && typeof profile.name === "string"))
-    .map((profile) => ({
-      ...profile,
-      dartEntrypoint: (profile.dartEntrypoint || "").trim() || "lib/main.dart",
-      flavor: (profile.flavor || "").trim()
-    }));
+function logStateRefresh(message: string): void {
+  if (vscode.workspace.getConfiguration("flutterRunner").get<boolean>("logStateRefreshes", false)) {
+    output.appendLine(`[refresh] ${message}`);
+  }
+}
+
+/**
+ * Profiles from workspace settings, the app's project profile file and user settings, before inheritance
+ * and defaults are applied. A name defined in several places resolves to the most specific one.
+ */
+function getConfiguredProfileEntries(): ConfiguredProfile[] {
+  const entries: ConfiguredProfile[] = [];
+  const seen = new Set<string>();
+  for (const store of getProfileStores()) {
+    for (const profile of store.profiles) {
+      if (seen.has(profile.name)) {
+        continue;
+      }
+      seen.add(profile.name);
+      entries.push({ profile, source: store.source });
+    }
+  }
+  return entries;
+}
+
+function getConfiguredProfiles(): RunProfile[] {
+  const profiles = getConfiguredProfileEntries().map((entry) => entry.profile);
 
-  if (normalized.length > 0) {
-    return normalized;
+  if (profiles.length > 0) {
+    return profiles;
   }
 
   return [{ name: "default", dartEntrypoint: "lib/main.dart", flavor: "" }];
 }
 
+function getProfiles(): RunProfile[] {
+  const { profiles, errors } = resolveProfileInheritance(getConfiguredProfiles());
+  reportProfileErrors(errors);
+  return profiles.map(normalizeProfile);
+}
+
+function reportProfileErrors(errors: string[]): void {
+  const key = errors.join("\n");
+  if (key === reportedProfileErrors) {
+    return;
+  }
+  reportedProfileErrors = key;
+  if (!errors.length) {
+    return;
+  }
+
+  for (const error of errors) {
+    output.appendLine(`[profiles] ${error}`);
+  }
+  void vscode.window
+    .showErrorMessage(`Flutter Runner profile configuration: ${errors.join(" ")}`, "Open Settings")
+    .then((selection) => {
+      if (selection === "Open Settings") {
+        void vscode.commands.executeCommand("workbench.action.openWorkspaceSettingsFile");
+      }
+    });
+}
+
+/** Expands `${...}` variables against the workspace folder that contains the project. */
+function expandProfileVariables(
+  profile: RunProfile,
+  projectFolder: string | undefined,
+  keepEnvVariables = false
+): RunProfile {
+  const workspaceFolder = projectFolder
+    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectFolder))?.uri.fsPath
+    : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  return substituteProfileVariables(profile, {
+    workspaceFolder: workspaceFolder ?? projectFolder,
+    env: process.env,
+    getConfig: (key) => vscode.workspace.getConfiguration().get(key),
+    keepEnvVariables
+  });
+}
+
+function describeProfile(profile: RunProfile): string {
+  const parts = [
+    (profile.dartEntrypoint || "").trim() || "lib/main.dart",
+    `flavor: ${(profile.flavor || "").trim() || "none"}`
+  ];
+  if (profile.buildMode && profile.buildMode !== "debug") {
+    parts.push(profile.buildMode);
+  }
+  const defineKeys = Object.keys(profile.dartDefines ?? {});
+  if (defineKeys.length > 0) {
+    parts.push(`defines: ${defineKeys.join(", ")}`);
+  }
+  if (profile.extends) {
+    parts.push(`extends: ${profile.extends}`);
+  }
+  return parts.join(" | ");
+}
+
 function getActiveProfile(): RunProfile | undefined {
   const config = vscode.workspace.getConfiguration("flutterRunner");
   const activeName = config.get<string>("activeProfile", "default");
@@ -570,17 +2402,21 @@ async function resolveFlutterProjectFolderPath(): Promise<string | undefined> {
     return undefined;
   }
 
+  const selectedApp = getSelectedAppPath();
+  if (selectedApp && (await isFlutterProject(selectedApp))) {
+    return selectedApp;
+  }
+
   const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
   const cacheKey = `${workspaceFolders.map((folder) => folder.uri.fsPath).join("|")}::${activePath ?? ""}`;
-  const now = Date.now();
-  if (cachedFlutterProjectFolder && cachedFlutterProjectFolder.key === cacheKey && now - cachedFlutterProjectFolder.resolvedAt < 5000) {
+  if (cachedFlutterProjectFolder && cachedFlutterProjectFolder.key === cacheKey) {
     return cachedFlutterProjectFolder.folderPath;
   }
 
   const monorepoAppsCandidates = await getMonorepoAppsCandidates(workspaceFolders);
   for (const candidate of monorepoAppsCandidates) {
     if (await isFlutterProject(candidate)) {
-      cachedFlutterProjectFolder = { key: cacheKey, resolvedAt: now, folderPath: candidate };
+      cachedFlutterProjectFolder = { key: cacheKey, folderPath: candidate };
       return candidate;
     }
   }
@@ -591,29 +2427,153 @@ async function resolveFlutterProjectFolderPath(): Promise<string | undefined> {
   );
   for (const candidate of directCandidates) {
     if (await isFlutterProject(candidate)) {
-      cachedFlutterProjectFolder = { key: cacheKey, resolvedAt: now, folderPath: candidate };
+      cachedFlutterProjectFolder = { key: cacheKey, folderPath: candidate };
+      return candidate;
+    }
+  }
+
+  const nestedProjectFolders = sortPathsByActiveFile(await getWorkspacePubspecFolders(), activePath);
+  for (const candidate of nestedProjectFolders) {
+    if (await isFlutterProject(candidate)) {
+      cachedFlutterProjectFolder = { key: cacheKey, folderPath: candidate };
       return candidate;
     }
   }
 
-  const nestedPubspecs = await vscode.workspace.findFiles(
-    "**/pubspec.yaml",
-    "**/{.dart_tool,build,node_modules,.git}/**",
-    200
-  );
-  const nestedProjectFolders = sortPathsByActiveFile(
-    Array.from(new Set(nestedPubspecs.map((file) => path.dirname(file.fsPath)))),
-    activePath
-  );
-  for (const candidate of nestedProjectFolders) {
-    if (await isFlutterProject(candidate)) {
-      cachedFlutterProjectFolder = { key: cacheKey, resolvedAt: now, folderPath: candidate };
-      return candidate;
-    }
+  cachedFlutterProjectFolder = { key: cacheKey, folderPath: undefined };
+  return undefined;
+}
+
+/** Folders containing a pubspec.yaml; scanned once and kept until the pubspec watcher reports a change. */
+async function getWorkspacePubspecFolders(): Promise<string[]> {
+  if (!cachedPubspecFolders) {
+    const startedAt = Date.now();
+    const pubspecs = await vscode.workspace.findFiles(
+      "**/pubspec.yaml",
+      "**/{.dart_tool,build,node_modules,.git}/**",
+      200
+    );
+    cachedPubspecFolders = Array.from(new Set(pubspecs.map((file) => path.dirname(file.fsPath))));
+    logStateRefresh(`scanned ${pubspecs.length} pubspec.yaml files in ${Date.now() - startedAt}ms`);
+  }
+  return cachedPubspecFolders;
+}
+
+function invalidateProjectDetection(pubspecListChanged: boolean): void {
+  cachedFlutterProjectFolder = undefined;
+  // Any pubspec edit can turn an app into a plugin or back.
+  cachedFlutterApps = undefined;
+  if (pubspecListChanged) {
+    cachedPubspecFolders = undefined;
+  }
+}
+
+function getSelectedAppPath(): string | undefined {
+  return extensionCtx.workspaceState.get<string>(SELECTED_APP_STATE_KEY);
+}
+
+/**
+ * Every Flutter app in the workspace; packages and plugins without a runnable app are skipped.
+ * Kept until the pubspec watcher reports a change.
+ */
+async function discoverFlutterApps(): Promise<string[]> {
+  if (cachedFlutterApps) {
+    return cachedFlutterApps;
+  }
+  const pubspecs = await vscode.workspace.findFiles("**/pubspec.yaml", PUBSPEC_EXCLUDE_GLOB);
+  const folders = Array.from(new Set(pubspecs.map((file) => path.dirname(file.fsPath)))).sort((left, right) =>
+    left.localeCompare(right)
+  );
+  const apps: string[] = [];
+  for (const folder of folders) {
+    if (await isFlutterApp(folder)) {
+      apps.push(folder);
+    }
+  }
+  cachedFlutterApps = apps;
+  return apps;
+}
+
+async function isFlutterApp(folderPath: string): Promise<boolean> {
+  if (!(await isFlutterProject(folderPath))) {
+    return false;
+  }
+  try {
+    const content = await fs.readFile(path.join(folderPath, "pubspec.yaml"), "utf8");
+    if (/^flutter\s*:[^\S\n]*\r?\n(?:(?:[ \t]+.*)?\r?\n)*?[ \t]+plugin\s*:/m.test(content)) {
+      return false;
+    }
+  } catch {
+    return false;
+  }
+  for (const marker of FLUTTER_APP_MARKERS) {
+    try {
+      await fs.stat(path.join(folderPath, marker));
+      return true;
+    } catch {
+      // Try the next marker.
+    }
+  }
+  return false;
+}
+
+async function selectFlutterApp(context: vscode.ExtensionContext): Promise<void> {
+  const apps = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "Discovering Flutter apps..." },
+    discoverFlutterApps
+  );
+  if (!apps.length) {
+    void vscode.window.showWarningMessage("No Flutter apps found in this workspace.");
+    return;
+  }
+  await pickFlutterApp(context, apps, "Select Flutter App", true);
+}
+
+async function pickFlutterApp(
+  context: vscode.ExtensionContext,
+  apps: string[],
+  title: string,
+  allowAutomatic = false
+): Promise<string | undefined> {
+  const selectedApp = getSelectedAppPath();
+  const items: { label: string; description?: string; appPath?: string }[] = apps.map((appPath) => ({
+    label: `${appPath === selectedApp ? "$(check) " : ""}${path.basename(appPath)}`,
+    description: vscode.workspace.asRelativePath(appPath, true),
+    appPath
+  }));
+  if (allowAutomatic) {
+    items.push({
+      label: `${selectedApp ? "" : "$(check) "}Automatic`,
+      description: "Detect the app from the workspace and active editor"
+    });
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title,
+    matchOnDescription: true,
+    placeHolder: "The choice is remembered for this workspace"
+  });
+  if (!selected) {
+    return undefined;
   }
 
-  cachedFlutterProjectFolder = { key: cacheKey, resolvedAt: now, folderPath: undefined };
-  return undefined;
+  await context.workspaceState.update(SELECTED_APP_STATE_KEY, selected.appPath);
+  cachedFlutterProjectFolder = undefined;
+  await updateStatusBar(context);
+  void testController.refresh();
+  return selected.appPath ?? (await resolveFlutterProjectFolderPath());
+}
+
+/** Resolves a profile `appPath` against the workspace folder that contains the current project. */
+function resolveProfileAppPath(appPath: string, projectFolder: string): string {
+  if (path.isAbsolute(appPath)) {
+    return path.normalize(appPath);
+  }
+  const workspaceFolder =
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectFolder))?.uri.fsPath ??
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ??
+    projectFolder;
+  return path.resolve(workspaceFolder, appPath);
 }
 
 async function getMonorepoAppsCandidates(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<string[]> {
@@ -658,11 +2618,21 @@ function isParentPath(parent: string, child: string): boolean {
 async function execCommand(
   command: string,
   args: string[],
-  options?: { showOutput?: boolean; progressTitle?: string; timeoutMs?: number }
+  options?: {
+    showOutput?: boolean;
+    progressTitle?: string;
+    timeoutMs?: number;
+    cwd?: string;
+    env?: Record<string, string>;
+  }
 ): Promise<{ ok: boolean; stdout: string; stderr: string; code: number | null }> {
   const runner = async () =>
     new Promise<{ ok: boolean; stdout: string; stderr: string; code: number | null }>((resolve) => {
-      const child = spawn(command, args, { shell: false });
+      const child = spawn(command, args, {
+        cwd: options?.cwd,
+        env: options?.env ? { ...process.env, ...options.env } : undefined,
+        shell: false
+      });
       let stdout = "";
       let stderr = "";
       let done = false;
@@ -689,16 +2659,16 @@ async function execCommand(
         }
       };
 
-      child.stdout.on("data", (chunk: Buffer) => {
-        const text = chunk.toString();
+      child.stdout.setEncoding("utf8");
+      child.stderr.setEncoding("utf8");
+      child.stdout.on("data", (text: string) => {
         stdout += text;
         if (options?.showOutput) {
           output.append(text);
         }
       });
 
-      child.stderr.on("data", (chunk: Buffer) => {
-        const text = chunk.toString();
+      child.stderr.on("data", (text: string) => {
         stderr += text;
         if (options?.showOutput) {
           output.append(text);
@@ -721,161 +2691,1023 @@ async function execCommand(
     return runner();
   }
 
-  return vscode.window.withProgress(
-    { location: vscode.ProgressLocation.Notification, title: options.progressTitle },
-    runner
-  );
+  return vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: options.progressTitle },
+    runner
+  );
+}
+
+async function listFlutterDevices(progressTitle?: string): Promise<FlutterDevice[]> {
+  const result = await execCommand("flutter", ["devices", "--machine"], { progressTitle, timeoutMs: 60000 });
+  if (!result.ok) {
+    output.appendLine(`[devices] flutter devices failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+    return [];
+  }
+
+  // The JSON array can be preceded by SDK upgrade or analytics notices.
+  const start = result.stdout.indexOf("[");
+  if (start < 0) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(result.stdout.slice(start)) as unknown;
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .map((device) => toFlutterDevice(device))
+      .filter((device): device is FlutterDevice => Boolean(device));
+  } catch {
+    output.appendLine("[devices] Could not parse `flutter devices --machine` output.");
+    return [];
+  }
+}
+
+function ensureDeviceDaemon(): DeviceDaemon | undefined {
+  if (deviceDaemon || deviceDaemonFailed) {
+    return deviceDaemon;
+  }
+
+  const started = startDeviceDaemon({
+    log: (line) => output.appendLine(line),
+    onDevicesChanged: () => {
+      for (const listener of Array.from(deviceChangeListeners)) {
+        listener();
+      }
+      void updateStatusBar(extensionCtx, "devices changed");
+    },
+    onExit: (error) => {
+      if (deviceDaemon === started) {
+        deviceDaemon = undefined;
+      }
+      if (error) {
+        // Do not respawn in a loop when flutter is missing; the device picker retries explicitly.
+        deviceDaemonFailed = true;
+        output.appendLine(`[devices] Device discovery stopped: ${error.message}`);
+      }
+      void updateStatusBar(extensionCtx, "device daemon exited");
+    }
+  });
+  deviceDaemon = started;
+  return started;
+}
+
+/** Devices from the device daemon, or a one-off `flutter devices --machine` while it is not ready. */
+async function getAvailableDevices(progressTitle?: string): Promise<FlutterDevice[]> {
+  const daemon = ensureDeviceDaemon();
+  if (daemon?.isReady()) {
+    return daemon.getDevices();
+  }
+  return listFlutterDevices(progressTitle);
+}
+
+function getKnownDevices(): FlutterDevice[] {
+  return deviceDaemon?.isReady() ? deviceDaemon.getDevices() : [];
+}
+
+function getDeviceName(deviceId: string): string {
+  return getKnownDevices().find((device) => device.id === deviceId)?.name ?? deviceId;
+}
+
+function describeDevice(device: FlutterDevice): string {
+  const parts = [device.platform ?? device.id];
+  if (device.emulator) {
+    parts.push("emulator");
+  }
+  if (device.sdk) {
+    parts.push(device.sdk);
+  }
+  return parts.join(" | ");
+}
+
+async function selectDevice(context: vscode.ExtensionContext, deviceId?: string): Promise<void> {
+  if (deviceId) {
+    await context.workspaceState.update(SELECTED_DEVICE_STATE_KEY, deviceId);
+    await updateStatusBar(context);
+    return;
+  }
+  deviceDaemonFailed = false;
+  const devices = await getAvailableDevices("Loading Flutter devices...");
+  const current = await resolveSelectedDeviceId();
+  const preferred = context.workspaceState.get<string>(SELECTED_DEVICE_STATE_KEY);
+
+  const items: {
+    label: string;
+    description?: string;
+    detail?: string;
+    deviceId?: string;
+    launchEmulator?: boolean;
+  }[] = devices
+    .filter((device) => device.isSupported !== false)
+    .map((device) => ({
+      label: `${device.id === current ? "$(check) " : ""}${device.name}`,
+      description: describeDevice(device),
+      detail: device.id,
+      deviceId: device.id
+    }));
+  items.push({
+    label: `${preferred ? "" : "$(check) "}Automatic`,
+    description: "Use the Flutter/Dart extension selection or the first connected device"
+  });
+  items.push({ label: "$(device-mobile) Launch Emulator...", launchEmulator: true });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: "Select Flutter Device",
+    matchOnDescription: true,
+    matchOnDetail: true,
+    placeHolder: devices.length ? "Choose the device to run on" : "No Flutter devices found"
+  });
+  if (!selected) {
+    return;
+  }
+  if (selected.launchEmulator) {
+    await launchEmulatorCommand(context);
+    return;
+  }
+
+  await context.workspaceState.update(SELECTED_DEVICE_STATE_KEY, selected.deviceId);
+  await updateStatusBar(context);
+}
+
+function getDeviceNodes(): DeviceNode[] {
+  const runningDeviceIds = new Set(Array.from(runSessions.values()).map((session) => session.deviceId));
+  return getKnownDevices()
+    .filter((device) => device.isSupported !== false)
+    .map((device) => ({
+      kind: "device",
+      device,
+      selected: device.id === selectedDeviceId,
+      running: runningDeviceIds.has(device.id)
+    }));
+}
+
+/** Restarts device discovery after it failed, for example once the Flutter SDK is on the PATH. */
+function refreshDevices(): void {
+  deviceDaemonFailed = false;
+  ensureDeviceDaemon();
+  devicesTree.refresh();
+}
+
+/** Unknown devices count as connected while the device daemon has no list to compare against. */
+function isDeviceConnected(deviceId: string): boolean {
+  return !deviceDaemon?.isReady() || getKnownDevices().some((device) => device.id === deviceId);
+}
+
+async function listFlutterEmulators(progressTitle?: string): Promise<FlutterEmulator[]> {
+  const result = await execCommand("flutter", ["emulators"], { progressTitle, timeoutMs: 60000 });
+  if (!result.ok) {
+    output.appendLine(`[emulators] flutter emulators failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+    return [];
+  }
+  return parseFlutterEmulators(result.stdout);
+}
+
+async function launchEmulatorCommand(context: vscode.ExtensionContext): Promise<void> {
+  const device = await pickAndLaunchEmulator(context);
+  if (device) {
+    void vscode.window.showInformationMessage(`${device.name} is ready.`);
+  }
+}
+
+/** Lets the user pick (or create) an emulator, boots it and selects the device it connects as. */
+async function pickAndLaunchEmulator(context: vscode.ExtensionContext): Promise<FlutterDevice | undefined> {
+  const emulators = await listFlutterEmulators("Loading emulators...");
+  const items: { label: string; description?: string; detail?: string; emulatorId?: string }[] = emulators.map(
+    (emulator) => ({
+      label: emulator.name,
+      description: [emulator.platform, emulator.manufacturer].filter(Boolean).join(" | "),
+      detail: emulator.id,
+      emulatorId: emulator.id
+    })
+  );
+  items.push({ label: "$(add) Create New Emulator...", description: "flutter emulators --create" });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: "Launch Emulator",
+    matchOnDescription: true,
+    matchOnDetail: true,
+    placeHolder: emulators.length ? "Choose the emulator or simulator to boot" : "No emulators found"
+  });
+  if (!selected) {
+    return undefined;
+  }
+
+  const emulatorId = selected.emulatorId ?? (await createEmulator(emulators));
+  if (!emulatorId) {
+    return undefined;
+  }
+
+  const device = await launchEmulator(context, emulatorId);
+  if (device) {
+    await context.workspaceState.update(SELECTED_DEVICE_STATE_KEY, device.id);
+    await updateStatusBar(context);
+  }
+  return device;
+}
+
+/** Runs `flutter emulators --create` and returns the id of the new emulator. */
+async function createEmulator(existing: FlutterEmulator[]): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    title: "Create Emulator",
+    prompt: "Name of the new emulator (leave empty to let Flutter choose one)",
+    validateInput: (value) => (/\s/.test(value.trim()) ? "Use a name without spaces." : undefined)
+  });
+  if (name === undefined) {
+    return undefined;
+  }
+
+  const args = ["emulators", "--create"];
+  if (name.trim()) {
+    args.push("--name", name.trim());
+  }
+  const result = await execCommand("flutter", args, {
+    showOutput: true,
+    progressTitle: "Creating emulator...",
+    timeoutMs: 300000
+  });
+  if (!result.ok) {
+    const lastLine = (result.stderr.trim() || result.stdout.trim()).split(/\r?\n/).pop();
+    void vscode.window.showErrorMessage(`Could not create an emulator: ${lastLine || `exit code ${result.code}`}`);
+    return undefined;
+  }
+
+  const knownIds = new Set(existing.map((emulator) => emulator.id));
+  const created = (await listFlutterEmulators()).find((emulator) => !knownIds.has(emulator.id));
+  return created?.id ?? (name.trim() || undefined);
+}
+
+/** Boots an emulator and resolves with its device once it is connected; undefined on failure, timeout or cancel. */
+async function launchEmulator(
+  context: vscode.ExtensionContext,
+  emulatorId: string
+): Promise<FlutterDevice | undefined> {
+  const devices = await getAvailableDevices();
+  const running = devices.find((device) => device.emulatorId === emulatorId);
+  if (running) {
+    return running;
+  }
+
+  const knownIds = new Set(devices.map((device) => device.id));
+  return vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Launching ${emulatorId}`, cancellable: true },
+    async (progress, token) => {
+      output.appendLine(`[emulators] flutter emulators --launch ${emulatorId}`);
+      const result = await execCommand("flutter", ["emulators", "--launch", emulatorId], { timeoutMs: 120000 });
+      if (!result.ok) {
+        output.appendLine(result.stderr.trim() || result.stdout.trim());
+        const selection = await vscode.window.showErrorMessage(
+          `Could not launch emulator "${emulatorId}".`,
+          "Show Output"
+        );
+        if (selection === "Show Output") {
+          output.show(true);
+        }
+        return undefined;
+      }
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+
+      progress.report({ message: "waiting for the device to connect..." });
+      const device = await waitForDevice(
+        (candidate) =>
+          candidate.emulatorId === emulatorId || (candidate.emulator === true && !knownIds.has(candidate.id)),
+        EMULATOR_BOOT_TIMEOUT_MS,
+        token
+      );
+      if (!device && !token.isCancellationRequested) {
+        void vscode.window.showWarningMessage(
+          `Emulator "${emulatorId}" did not connect within ${EMULATOR_BOOT_TIMEOUT_MS / 1000} seconds.`
+        );
+      }
+      if (device) {
+        output.appendLine(`[emulators] ${emulatorId} connected as ${device.id}`);
+        await updateStatusBar(context);
+      }
+      return device;
+    }
+  );
+}
+
+/** Resolves with the first device matching `matches`, from device daemon events or `flutter devices` polling. */
+function waitForDevice(
+  matches: (device: FlutterDevice) => boolean,
+  timeoutMs: number,
+  token: vscode.CancellationToken
+): Promise<FlutterDevice | undefined> {
+  ensureDeviceDaemon();
+  return new Promise((resolve) => {
+    let done = false;
+    let pollTimer: NodeJS.Timeout | undefined;
+    const finish = (device: FlutterDevice | undefined) => {
+      if (done) {
+        return;
+      }
+      done = true;
+      clearTimeout(timeoutTimer);
+      if (pollTimer) {
+        clearTimeout(pollTimer);
+      }
+      deviceChangeListeners.delete(check);
+      cancellation.dispose();
+      resolve(device);
+    };
+    const check = () => {
+      const device = getKnownDevices().find(matches);
+      if (device) {
+        finish(device);
+      }
+    };
+    // Without a ready device daemon there are no events, so ask flutter directly.
+    const poll = async () => {
+      if (!deviceDaemon?.isReady()) {
+        const device = (await listFlutterDevices()).find(matches);
+        if (device) {
+          finish(device);
+          return;
+        }
+      }
+      if (!done) {
+        pollTimer = setTimeout(() => void poll(), 5000);
+      }
+    };
+
+    const timeoutTimer = setTimeout(() => finish(undefined), timeoutMs);
+    const cancellation = token.onCancellationRequested(() => finish(undefined));
+    deviceChangeListeners.add(check);
+    check();
+    void poll();
+  });
+}
+
+async function resolveSelectedDeviceId(): Promise<string | undefined> {
+  const knownDevices = getKnownDevices();
+  const preferred = extensionCtx.workspaceState.get<string>(SELECTED_DEVICE_STATE_KEY);
+  if (preferred && (!deviceDaemon?.isReady() || knownDevices.some((device) => device.id === preferred))) {
+    return preferred;
+  }
+
+  try {
+    const value = await vscode.commands.executeCommand<unknown>("flutter.getSelectedDeviceId");
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+  } catch {
+    // Fallbacks below.
+  }
+
+  try {
+    const value = await vscode.commands.executeCommand<unknown>("dart.getFlutterDeviceId");
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+  } catch {
+    // Fallbacks below.
+  }
+
+  const dartConfig = vscode.workspace.getConfiguration("dart");
+  const candidates = [
+    dartConfig.get<string>("flutterDeviceId"),
+    dartConfig.get<string>("deviceId")
+  ];
+  for (const candidate of candidates) {
+    if (candidate && candidate.trim().length > 0) {
+      return candidate.trim();
+    }
+  }
+
+  return knownDevices.find((device) => device.isSupported !== false)?.id;
+}
+
+async function setRunningState(context: vscode.ExtensionContext, running: boolean): Promise<void> {
+  await vscode.commands.executeCommand("setContext", IS_RUNNING_CONTEXT_KEY, running);
+  await context.workspaceState.update(IS_RUNNING_CONTEXT_KEY, running);
+}
+
+async function setStartingState(context: vscode.ExtensionContext, starting: boolean): Promise<void> {
+  await vscode.commands.executeCommand("setContext", IS_STARTING_CONTEXT_KEY, starting);
+  await context.workspaceState.update(IS_STARTING_CONTEXT_KEY, starting);
+}
+
+async function triggerHotReload(trigger: "manual", sessionId?: string): Promise<void> {
+  const sessions = Array.from(runSessions.values()).filter(
+    (session) => !session.stopping && (!sessionId || session.id === sessionId)
+  );
+  if (!sessions.length) {
+    void vscode.window.showWarningMessage("No Flutter run is active.");
+    return;
+  }
+  const ready = sessions.filter((session) => Boolean(session.appId));
+  if (!ready.length) {
+    void vscode.window.showWarningMessage("Flutter app is still starting. Try again once it is running.");
+    return;
+  }
+
+  await Promise.all(
+    ready.map(async (session) => {
+      session.console.appendLine("extension", "[hot-reload] Triggered manually.");
+      if (!(await waitForBuildRunner(session))) {
+        return false;
+      }
+      return requestAppRestart(session, false, trigger);
+    })
+  );
+}
+
+/**
+ * Holds a reload until `build_runner watch` has regenerated code; false when the generator failed.
+ * Saved generator inputs get a moment for build_runner to notice them and start a build.
+ */
+async function waitForBuildRunner(session: RunSession, savedFiles: string[] = []): Promise<boolean> {
+  const watch = buildRunnerWatches.get(session.folder);
+  if (!watch) {
+    return true;
+  }
+  if (watch.state === "starting" || watch.state === "building") {
+    session.console.appendLine("extension", "[hot-reload] Waiting for build_runner to finish.");
+  }
+  const graceMs = (await hasGeneratedParts(savedFiles)) ? BUILD_RUNNER_SAVE_GRACE_MS : 0;
+  const succeeded = await watch.waitForBuild(graceMs);
+  if (!succeeded && runSessions.get(session.id) === session) {
+    session.console.appendLine("error", "[hot-reload] Skipped: build_runner failed. Fix the errors and save again.");
+    showReloadStatus(session, "error", "Hot reload skipped: build_runner failed", watch.errors.join("\n\n"));
+  }
+  return succeeded && runSessions.get(session.id) === session;
+}
+
+async function hasGeneratedParts(files: string[]): Promise<boolean> {
+  for (const file of files) {
+    try {
+      if (GENERATED_PART_PATTERN.test(await fs.readFile(file, "utf8"))) {
+        return true;
+      }
+    } catch {
+      // Deleted or unreadable files have no generated parts to wait for.
+    }
+  }
+  return false;
+}
+
+async function triggerHotRestart(trigger: "manual", sessionId?: string): Promise<void> {
+  const sessions = Array.from(runSessions.values()).filter(
+    (session) => !session.stopping && (!sessionId || session.id === sessionId)
+  );
+  if (!sessions.length) {
+    void vscode.window.showWarningMessage("No Flutter run is active.");
+    return;
+  }
+  const ready = sessions.filter((session) => Boolean(session.appId));
+  if (!ready.length) {
+    void vscode.window.showWarningMessage("Flutter app is still starting. Try again once it is running.");
+    return;
+  }
+
+  await Promise.all(
+    ready.map((session) => {
+      clearRunConsoleForRestart(session);
+      session.console.appendLine("extension", "[hot-restart] Triggered manually.");
+      return requestAppRestart(session, true, trigger);
+    })
+  );
+}
+
+/** Publishes problems found in run output; locations outside the workspace (SDK, pub cache) are skipped. */
+async function reportRunProblems(deviceId: string, problems: RunProblem[]): Promise<void> {
+  const projectFolder = sessionConsoles.get(deviceId)?.projectFolder;
+  let byFile = runProblems.get(deviceId);
+  if (!byFile) {
+    byFile = new Map();
+    runProblems.set(deviceId, byFile);
+  }
+
+  for (const problem of problems) {
+    const filePath = await resolveDartLocation(problem.location, projectFolder);
+    if (!filePath || !vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))) {
+      continue;
+    }
+    const position = new vscode.Position(Math.max(problem.line - 1, 0), Math.max(problem.column - 1, 0));
+    const diagnostics = byFile.get(filePath) ?? [];
+    if (diagnostics.some((item) => item.range.start.isEqual(position) && item.message === problem.message)) {
+      continue;
+    }
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(position, position),
+      problem.message,
+      problem.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = RUN_DIAGNOSTIC_SOURCE;
+    diagnostic.code = problem.source;
+    diagnostics.push(diagnostic);
+    byFile.set(filePath, diagnostics);
+  }
+  publishRunProblems();
+}
+
+function clearRunProblems(deviceId: string): void {
+  if (runProblems.delete(deviceId)) {
+    publishRunProblems();
+  }
+}
+
+function publishRunProblems(): void {
+  const merged = new Map<string, vscode.Diagnostic[]>();
+  for (const byFile of runProblems.values()) {
+    for (const [filePath, diagnostics] of byFile) {
+      merged.set(filePath, [...(merged.get(filePath) ?? []), ...diagnostics]);
+    }
+  }
+  runDiagnostics.clear();
+  for (const [filePath, diagnostics] of merged) {
+    runDiagnostics.set(vscode.Uri.file(filePath), diagnostics);
+  }
+}
+
+/** One hot restart per session whose run output reported the diagnostics, so other devices keep running. */
+function provideHotRestartQuickFix(
+  document: vscode.TextDocument,
+  _range: vscode.Range | vscode.Selection,
+  context: vscode.CodeActionContext
+): vscode.CodeAction[] {
+  const diagnostics = context.diagnostics.filter((diagnostic) => diagnostic.source === RUN_DIAGNOSTIC_SOURCE);
+  if (!diagnostics.length || !runSessions.size) {
+    return [];
+  }
+  const sessions = Array.from(runSessions.values()).filter((session) => {
+    // Code action diagnostics are copies, so they are matched by file, position and message.
+    const byFile = runProblems.get(session.deviceId) ?? new Map<string, vscode.Diagnostic[]>();
+    const reported = Array.from(byFile)
+      .filter(([filePath]) => vscode.Uri.file(filePath).toString() === document.uri.toString())
+      .flatMap(([, items]) => items);
+    return diagnostics.some((diagnostic) =>
+      reported.some(
+        (item) => item.range.start.isEqual(diagnostic.range.start) && item.message === diagnostic.message
+      )
+    );
+  });
+  return sessions.map((session) => {
+    const action = new vscode.CodeAction(
+      sessions.length > 1 ? `Hot restart Flutter app on ${session.deviceName}` : "Hot restart Flutter app",
+      vscode.CodeActionKind.QuickFix
+    );
+    action.command = { title: "Hot Restart", command: "flutterRunner.hotRestart", arguments: [session.id] };
+    action.diagnostics = diagnostics;
+    return action;
+  });
+}
+
+function clearRunConsoleForRestart(session: RunSession): void {
+  if (vscode.workspace.getConfiguration("flutterRunner").get<boolean>("clearRunConsoleOnRestart", true)) {
+    session.console.clear();
+  }
+}
+
+async function requestAppRestart(session: RunSession, fullRestart: boolean, reason: string): Promise<boolean> {
+  const label = fullRestart ? "hot-restart" : "hot-reload";
+  if (!session.appId || runSessions.get(session.id) !== session) {
+    return false;
+  }
+  if (session.restartInFlight) {
+    session.console.appendLine("extension", `[${label}] Waiting for the previous reload/restart to finish.`);
+  }
+  while (session.restartInFlight) {
+    if (!fullRestart && !session.restartInFlight.fullRestart) {
+      // Coalesce saves made while a reload is running into one follow-up reload.
+      session.hotReloadQueued = true;
+      session.console.appendLine("extension", `[${label}] Already in progress; queued another reload.`);
+      return false;
+    }
+    await session.restartInFlight.done;
+    if (!session.appId || runSessions.get(session.id) !== session) {
+      return false;
+    }
+  }
+
+  const startedAt = Date.now();
+  const request = sendAppRestart(session, fullRestart, reason, startedAt);
+  session.restartInFlight = { fullRestart, startedAt, done: request.then(() => undefined) };
+  return request;
 }
 
-async function resolveSelectedDeviceId(): Promise<string | undefined> {
-  try {
-    const value = await vscode.commands.executeCommand<unknown>("flutter.getSelectedDeviceId");
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value.trim();
-    }
-  } catch {
-    // Fallbacks below.
+/** Sends one `app.restart` and reports its result; `requestAppRestart` makes sure none is already pending. */
+async function sendAppRestart(
+  session: RunSession,
+  fullRestart: boolean,
+  reason: string,
+  startedAt: number
+): Promise<boolean> {
+  const label = fullRestart ? "hot-restart" : "hot-reload";
+  showReloadStatus(session, "running", fullRestart ? "Hot restarting..." : "Hot reloading...");
+  if (webPreviewSessionId === session.id) {
+    webPreviewPanel.setStatus("reloading");
   }
 
+  let result: AppRestartResult | undefined;
+  let failure: string | undefined;
   try {
-    const value = await vscode.commands.executeCommand<unknown>("dart.getFlutterDeviceId");
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value.trim();
-    }
-  } catch {
-    // Fallbacks below.
+    result = await session.daemon.sendRequest<AppRestartResult>("app.restart", {
+      appId: session.appId as string,
+      fullRestart,
+      pause: false,
+      reason
+    });
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
   }
 
-  const dartConfig = vscode.workspace.getConfiguration("dart");
-  const candidates = [
-    dartConfig.get<string>("flutterDeviceId"),
-    dartConfig.get<string>("deviceId")
-  ];
-  for (const candidate of candidates) {
-    if (candidate && candidate.trim().length > 0) {
-      return candidate.trim();
+  if (runSessions.get(session.id) !== session) {
+    // The run was stopped while the request was pending.
+    return false;
+  }
+  session.restartInFlight = undefined;
+
+  const elapsedMs = Date.now() - startedAt;
+  const succeeded = !failure && result?.code === 0;
+  if (succeeded) {
+    clearRunProblems(session.deviceId);
+    const summary = formatReloadSummary(result?.message, fullRestart, elapsedMs);
+    session.console.appendLine("extension", `[${label}] ${summary}`);
+    showReloadStatus(session, "success", summary);
+    if (fullRestart && devToolsSessionId === session.id) {
+      // The restart replaced the isolate DevTools was inspecting.
+      devToolsPanel.reload();
+    }
+    if (fullRestart && webPreviewSessionId === session.id) {
+      webPreviewPanel.reload();
+    }
+  } else {
+    const message = failure ?? (result?.message || "unknown error");
+    session.console.appendLine("extension", `[${label}] Failed after ${elapsedMs}ms: ${message}`);
+    // Compile errors of a failed reload (for example after a save) are often only in the result message.
+    const problems = message
+      .split(/\r?\n/)
+      .map((line) => parseProblemLine(line))
+      .filter((problem): problem is RunProblem => Boolean(problem));
+    if (problems.length) {
+      void reportRunProblems(session.deviceId, problems);
     }
+    showReloadStatus(
+      session,
+      "error",
+      `${fullRestart ? "Hot restart" : "Hot reload"} failed (${elapsedMs}ms)`,
+      message
+    );
+  }
+  if (webPreviewSessionId === session.id) {
+    webPreviewPanel.setStatus("running", succeeded ? undefined : `${fullRestart ? "hot restart" : "hot reload"} failed`);
+  }
+  if (result?.hintMessage) {
+    session.console.appendLine("extension", `[${label}] ${result.hintMessage}`);
   }
 
-  return undefined;
-}
+  if (!fullRestart && needsFullRestart(result, failure)) {
+    void offerHotRestart(session, result?.hintMessage || result?.message || failure);
+  }
 
-async function setRunningState(context: vscode.ExtensionContext, running: boolean): Promise<void> {
-  await vscode.commands.executeCommand("setContext", IS_RUNNING_CONTEXT_KEY, running);
-  await context.workspaceState.update(IS_RUNNING_CONTEXT_KEY, running);
+  if (session.hotReloadQueued) {
+    session.hotReloadQueued = false;
+    void requestAppRestart(session, false, "save");
+  }
+  return succeeded;
 }
 
-async function setStartingState(context: vscode.ExtensionContext, starting: boolean): Promise<void> {
-  await vscode.commands.executeCommand("setContext", IS_STARTING_CONTEXT_KEY, starting);
-  await context.workspaceState.update(IS_STARTING_CONTEXT_KEY, starting);
+function formatReloadSummary(message: string | undefined, fullRestart: boolean, elapsedMs: number): string {
+  const text = (message || "").trim().replace(/\.$/, "");
+  if (!text) {
+    return `${fullRestart ? "Restarted application" : "Reloaded"} in ${elapsedMs}ms`;
+  }
+  if (/\bin [\d,.]+\s*m?s\b/i.test(text)) {
+    return text;
+  }
+  // Flutter reports "Reloaded 3 of 412 libraries"; keep the total and add our timing.
+  const libraries = text.match(/^Reloaded (?:\d+ of )?(\d+) libraries/i);
+  if (libraries) {
+    return `Reloaded ${libraries[1]} libraries in ${elapsedMs}ms`;
+  }
+  return `${text} in ${elapsedMs}ms`;
 }
 
-async function triggerHotReload(trigger: "manual" | "save"): Promise<void> {
-  if (!runProcess || runProcess.killed || !runProcess.stdin || runProcess.stdin.destroyed) {
-    if (trigger === "manual") {
-      void vscode.window.showWarningMessage("No Flutter run is active.");
-    }
-    return;
+function needsFullRestart(result: AppRestartResult | undefined, failure: string | undefined): boolean {
+  if (result?.hintId === "restartRecommended") {
+    return true;
   }
-
-  runProcess.stdin.write("r\n");
-  output.appendLine(trigger === "manual" ? "[hot-reload] Triggered manually." : "[hot-reload] Triggered on save.");
+  const text = `${result?.message ?? ""}\n${result?.hintMessage ?? ""}\n${failure ?? ""}`;
+  return /hot reload was rejected|(?:hot|full) restart|restart the app|requires a restart/i.test(text);
 }
 
-async function triggerHotRestart(trigger: "manual"): Promise<void> {
-  if (!runProcess || runProcess.killed || !runProcess.stdin || runProcess.stdin.destroyed) {
-    void vscode.window.showWarningMessage("No Flutter run is active.");
-    return;
+async function offerHotRestart(session: RunSession, reason: string | undefined): Promise<void> {
+  const detail = (reason || "").split(/\r?\n/).find((line) => line.trim().length > 0)?.trim();
+  const target = runSessions.size > 1 ? ` on ${session.deviceName}` : "";
+  const selection = await vscode.window.showWarningMessage(
+    detail
+      ? `Flutter needs a hot restart${target} to apply these changes: ${detail}`
+      : `Flutter needs a hot restart${target} to apply these changes.`,
+    "Hot Restart",
+    "Show Output"
+  );
+  if (selection === "Hot Restart") {
+    clearRunConsoleForRestart(session);
+    await requestAppRestart(session, true, "manual");
+  } else if (selection === "Show Output") {
+    session.output.show(true);
   }
+}
 
-  runProcess.stdin.write("R\n");
-  output.appendLine("[hot-restart] Triggered manually.");
-  if (trigger === "manual") {
-    void vscode.window.setStatusBarMessage("Flutter hot restart triggered", 1500);
-  }
+function showReloadStatus(
+  session: RunSession,
+  state: "running" | "success" | "error",
+  text: string,
+  detail?: string
+): void {
+  const icon = state === "running" ? "$(sync~spin)" : state === "success" ? "$(check)" : "$(error)";
+  const prefix = runSessions.size > 1 ? `${session.deviceName}: ` : "";
+  reloadStatusItem.text = `${icon} ${prefix}${text}`;
+  reloadStatusItem.tooltip = detail ? `${text}\n\n${detail}\n\nClick to show output` : "Click to show output";
+  reloadStatusItem.command = { title: "Show Output", command: "flutterRunner.showOutput", arguments: [session.id] };
+  reloadStatusItem.backgroundColor =
+    state === "error" ? new vscode.ThemeColor("statusBarItem.errorBackground") : undefined;
+  reloadStatusItem.show();
 }
 
-async function captureDevToolsUrl(outputChunk: string): Promise<void> {
-  const lines = outputChunk.split(/\r?\n/);
-  for (const line of lines) {
-    if (!/devtools/i.test(line)) {
-      continue;
-    }
-    const match = line.match(DEVTOOLS_URL_PATTERN);
-    if (!match) {
-      continue;
-    }
-    const url = sanitizeUrl(match[1]);
-    if (!url) {
-      continue;
+async function handleDaemonEvent(session: RunSession, event: FlutterDaemonEvent): Promise<void> {
+  const sessionConsole = session.console;
+  switch (event.event) {
+    case "daemon.logMessage": {
+      const level = event.params.level === "error" ? "error" : "build";
+      sessionConsole.appendLine(level, `[${event.params.level}] ${event.params.message}`);
+      noteLostConnection(session, event.params.message);
+      if (event.params.stackTrace) {
+        sessionConsole.appendLine(level, event.params.stackTrace);
+      }
+      return;
     }
-    latestDevToolsUrl = url;
-    await vscode.commands.executeCommand("setContext", HAS_DEVTOOLS_URL_CONTEXT_KEY, true);
+    case "app.start":
+      session.appId = event.params.appId;
+      sessionConsole.appendLine("extension", `[app] Starting on ${event.params.deviceId}...`);
+      return;
+    case "app.debugPort":
+      session.vmServiceUri = event.params.wsUri;
+      sessionConsole.appendLine("extension", `[app] VM service available at ${event.params.wsUri}`);
+      void updateStatusBar(extensionCtx, "VM service available");
+      await captureDevToolsUrl(session, event.params.wsUri);
+      return;
+    case "app.started":
+      sessionConsole.appendLine("extension", "[app] Started.");
+      session.started = true;
+      if (webPreviewSessionId === session.id) {
+        webPreviewPanel.setStatus("running");
+      }
+      void updateStatusBar(extensionCtx, "app started");
+      return;
+    case "app.progress":
+      if (event.params.message) {
+        sessionConsole.appendLine("build", `[progress] ${event.params.message}`);
+        if (session.restartInFlight && !event.params.finished && /^hot\./.test(event.params.progressId ?? "")) {
+          showReloadStatus(session, "running", event.params.message.replace(/\.+$/, ""));
+        }
+      }
+      return;
+    case "app.log":
+      sessionConsole.appendLine(event.params.error ? "error" : "app", event.params.log);
+      noteLostConnection(session, event.params.log);
+      return;
+    case "app.webLaunchUrl":
+      await captureWebAppUrl(session, event.params.url);
+      return;
+    case "app.stop":
+      session.appStopError = event.params.error;
+      sessionConsole.appendLine(
+        event.params.error ? "error" : "extension",
+        event.params.error ? `[app] Stopped with error: ${event.params.error}` : "[app] Stopped."
+      );
+      return;
+    default:
+      return;
   }
 }
 
-async function captureWebAppUrl(outputChunk: string): Promise<void> {
-  if (!currentRunIsWeb || !currentRunOpensInTab) {
+/**
+ * Picks up the VM service URL from tool output ("A Dart VM Service on ... is available at: http://..."),
+ * for `flutter attach` runs that connect before (or without) sending `app.debugPort`.
+ */
+async function captureVmServiceFromText(session: RunSession, line: string): Promise<void> {
+  if (session.vmServiceUri) {
+    return;
+  }
+  const match = /(?:VM Service|Observatory)\b.*?\b((?:https?|wss?):\/\/[^\s]+)/i.exec(line);
+  if (!match) {
     return;
   }
+  const url = match[1].replace(/[.,]$/, "");
+  const wsUri = url.startsWith("http")
+    ? `${url.replace(/^http/, "ws").replace(/\/?$/, "/")}ws`
+    : url;
+  session.vmServiceUri = wsUri;
+  session.console.appendLine("extension", `[app] VM service available at ${wsUri}`);
+  void updateStatusBar(extensionCtx, "VM service available");
+  await captureDevToolsUrl(session, wsUri);
+}
 
-  const matches = outputChunk.match(URL_PATTERN_GLOBAL) ?? [];
-  for (const match of matches) {
-    const url = sanitizeUrl(match);
+async function captureDevToolsUrl(session: RunSession, vmServiceUri: string): Promise<void> {
+  try {
+    const server = await session.daemon.sendRequest<{ host?: string; port?: number } | null>("devtools.serve");
+    if (!server?.host || !server.port || session.vmServiceUri !== vmServiceUri) {
+      return;
+    }
+    const url = sanitizeUrl(`http://${server.host}:${server.port}/?uri=${encodeURIComponent(vmServiceUri)}`);
     if (!url) {
-      continue;
+      return;
     }
-
-    if (!isLocalWebUrl(url)) {
-      continue;
+    session.devToolsUrl = url;
+    session.console.appendLine("extension", `[devtools] ${url}`);
+    if (!devToolsSessionId || devToolsSessionId === session.id || !runSessions.has(devToolsSessionId)) {
+      devToolsSessionId = session.id;
+      devToolsPanel.setUrl(url);
     }
+    await updateStatusBar(extensionCtx);
+  } catch (error) {
+    session.console.appendLine(
+      "extension",
+      `[devtools] Could not start DevTools server: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
 
-    latestWebAppUrl = url;
-    await maybeOpenWebAppPreview(url);
+async function captureWebAppUrl(session: RunSession, launchUrl: string): Promise<void> {
+  const url = sanitizeUrl(launchUrl);
+  if (!url) {
     return;
   }
+  session.webAppUrl = url;
+  session.console.appendLine("extension", `[web] App served at ${url}`);
+  await maybeOpenWebAppPreview(session, url);
 }
 
-async function maybeOpenWebAppPreview(url: string): Promise<void> {
-  if (!currentRunIsWeb || !currentRunOpensInTab) {
+async function maybeOpenWebAppPreview(session: RunSession, url: string): Promise<void> {
+  if (!session.isWeb || !session.opensInTab) {
     return;
   }
-  if (hasOpenedWebPreviewForRun) {
+  if (session.hasOpenedWebPreview) {
     return;
   }
-  hasOpenedWebPreviewForRun = true;
+  session.hasOpenedWebPreview = true;
 
-  await openWebPreviewInSplit(url);
+  webPreviewSessionId = session.id;
+  webPreviewPanel.show(url);
+  webPreviewPanel.setStatus(session.started ? "running" : "starting");
 }
 
-async function openWebPreviewInSplit(url: string): Promise<void> {
-  try {
-    await vscode.commands.executeCommand("simpleBrowser.show", url, {
-      viewColumn: vscode.ViewColumn.Beside,
-      preserveFocus: false
+/** Connects to the session's VM service on first use and reconnects after the socket closed. */
+function getVmService(session: RunSession): Promise<VmService> {
+  const wsUri = session.vmServiceUri;
+  if (!wsUri) {
+    return Promise.reject(new Error("The VM service URL is not known yet."));
+  }
+  if (!session.vmService) {
+    const connection = connectVmService(wsUri, {
+      onClose: () => {
+        if (session.vmService === connection) {
+          session.vmService = undefined;
+        }
+      }
     });
-    return;
-  } catch {
-    // Fallback for environments where options are not supported.
+    session.vmService = connection;
+    connection.then(
+      () => session.console.appendLine("extension", `[vm-service] Connected to ${wsUri}`),
+      () => {
+        if (session.vmService === connection) {
+          session.vmService = undefined;
+        }
+      }
+    );
   }
+  return session.vmService;
+}
 
-  try {
-    await vscode.commands.executeCommand("simpleBrowser.show", url);
-  } catch {
+async function pickVmServiceSession(title: string): Promise<RunSession | undefined> {
+  const session = await pickRunSession(title, (item) => Boolean(item.vmServiceUri));
+  if (!session) {
     void vscode.window.showWarningMessage(
-      "Could not open Web app in editor tab. You can open the URL manually from Flutter Runner output."
+      runSessions.size ? "Flutter app is still starting. Try again once it is running." : "No Flutter run is active."
     );
   }
+  return session;
 }
 
-async function openDevTools(): Promise<void> {
-  if (latestDevToolsUrl) {
-    try {
-      await vscode.commands.executeCommand("simpleBrowser.show", latestDevToolsUrl);
-      return;
-    } catch {
-      // fallback below
-    }
+/** Runs a VM service action and reports connection or extension errors to the user. */
+async function withVmService<T>(
+  session: RunSession,
+  action: (vmService: VmService) => Promise<T>
+): Promise<T | undefined> {
+  try {
+    return await action(await getVmService(session));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    session.console.appendLine("error", `[vm-service] ${message}`);
+    void vscode.window.showErrorMessage(`Flutter runtime command failed: ${message}`);
+    return undefined;
+  }
+}
+
+async function showRuntimeTools(): Promise<void> {
+  const selected = await vscode.window.showQuickPick(
+    [
+      { label: "$(paintcan) Toggle Debug Paint", command: "flutterRunner.toggleDebugPaint" },
+      { label: "$(pulse) Toggle Performance Overlay", command: "flutterRunner.togglePerformanceOverlay" },
+      { label: "$(watch) Toggle Slow Animations", command: "flutterRunner.toggleSlowAnimations" },
+      { label: "$(device-mobile) Override Platform...", command: "flutterRunner.overridePlatform" },
+      { label: "$(color-mode) Override Brightness...", command: "flutterRunner.overrideBrightness" },
+      { label: "$(list-tree) Dump Widget Tree", command: "flutterRunner.dumpWidgetTree" },
+      { label: "$(list-tree) Dump Render Tree", command: "flutterRunner.dumpRenderTree" }
+    ],
+    { title: "Flutter runtime tools" }
+  );
+  if (selected) {
+    await vscode.commands.executeCommand(selected.command);
+  }
+}
+
+async function toggleServiceExtension(name: keyof typeof FLUTTER_SERVICE_TOGGLES): Promise<void> {
+  const toggle = FLUTTER_SERVICE_TOGGLES[name];
+  const session = await pickVmServiceSession(`Select run to toggle ${toggle.label} on`);
+  if (!session) {
+    return;
+  }
+  const enabled = await withVmService(session, async (vmService) => {
+    const current = await vmService.callServiceExtension<Record<string, string>>(toggle.method);
+    const next = current[toggle.param] === toggle.on ? toggle.off : toggle.on;
+    await vmService.callServiceExtension(toggle.method, { [toggle.param]: next });
+    return next === toggle.on;
+  });
+  if (enabled !== undefined) {
+    const state = `${toggle.label}: ${enabled ? "on" : "off"}`;
+    session.console.appendLine("extension", `[vm-service] ${state}`);
+    vscode.window.setStatusBarMessage(`$(tools) ${state}`, 3000);
+  }
+}
+
+async function overridePlatform(): Promise<void> {
+  await setServiceExtensionValue("ext.flutter.platformOverride", "Platform", PLATFORM_OVERRIDES);
+}
+
+async function overrideBrightness(): Promise<void> {
+  await setServiceExtensionValue("ext.flutter.brightnessOverride", "Brightness", BRIGHTNESS_OVERRIDES);
+}
+
+/** Shows the current value of a `value` service extension and sets the picked one. */
+async function setServiceExtensionValue(method: string, label: string, choices: string[]): Promise<void> {
+  const session = await pickVmServiceSession(`Select run to override ${label.toLowerCase()} on`);
+  if (!session) {
+    return;
+  }
+  const current = await withVmService(session, (vmService) =>
+    vmService.callServiceExtension<{ value?: string }>(method)
+  );
+  if (!current) {
+    return;
+  }
+  const selected = await vscode.window.showQuickPick(
+    choices.map((choice) => ({ label: choice, description: choice === current.value ? "current" : undefined })),
+    { title: `${label} override` }
+  );
+  if (!selected || selected.label === current.value) {
+    return;
+  }
+  const result = await withVmService(session, (vmService) =>
+    vmService.callServiceExtension<{ value?: string }>(method, { value: selected.label })
+  );
+  if (result) {
+    const state = `${label} override: ${result.value ?? selected.label}`;
+    session.console.appendLine("extension", `[vm-service] ${state}`);
+    vscode.window.setStatusBarMessage(`$(tools) ${state}`, 3000);
+  }
+}
+
+async function dumpTree(tree: "widget" | "render"): Promise<void> {
+  const session = await pickVmServiceSession(`Select run to dump the ${tree} tree of`);
+  if (!session) {
+    return;
+  }
+  const method = tree === "widget" ? "ext.flutter.debugDumpApp" : "ext.flutter.debugDumpRenderTree";
+  const result = await withVmService(session, (vmService) => vmService.callServiceExtension<{ data?: string }>(method));
+  if (!result) {
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument({
+    content: result.data ?? `${method} returned no data. Older Flutter versions print the tree to the run output.`,
+    language: "plaintext"
+  });
+  await vscode.window.showTextDocument(document, { preview: false });
+}
+
+async function openDevTools(page?: DevToolsPage, sessionId?: string): Promise<void> {
+  const session = sessionId
+    ? runSessions.get(sessionId)
+    : await pickRunSession("Select run to open DevTools for", (item) => Boolean(item.devToolsUrl));
+  if (session?.devToolsUrl) {
+    devToolsSessionId = session.id;
+    devToolsPanel.setUrl(session.devToolsUrl);
+    devToolsPanel.show(page);
+    return;
   }
 
   try {
@@ -885,41 +3717,87 @@ async function openDevTools(): Promise<void> {
     // fallback below
   }
 
-  const msg = latestDevToolsUrl
-    ? "Could not open DevTools internally. You can open the URL manually from Flutter Runner output."
-    : "DevTools URL not detected yet. Wait for Flutter run startup logs and try again.";
-  void vscode.window.showWarningMessage(msg);
+  void vscode.window.showWarningMessage(
+    "DevTools URL not detected yet. Wait for Flutter run startup logs and try again."
+  );
+}
+
+async function openDevToolsPage(): Promise<void> {
+  const selected = await vscode.window.showQuickPick(
+    DEVTOOLS_PAGES.map((item) => ({ label: item.label, page: item.page })),
+    { title: "Open DevTools page" }
+  );
+  if (selected) {
+    await openDevTools(selected.page);
+  }
 }
 
-async function handleDocumentSaved(doc: vscode.TextDocument): Promise<void> {
-  if (doc.languageId !== "dart") {
+function handleDocumentSaved(doc: vscode.TextDocument): void {
+  if (doc.languageId !== "dart" || doc.uri.scheme !== "file") {
     return;
   }
-  if (!runProcess) {
+  queueChangedDartFile(doc.uri);
+}
+
+/**
+ * Collects saved files and files written by other tools (through the Dart file watcher) so that
+ * `Save All` or a code generator run results in one reload per session.
+ */
+function queueChangedDartFile(uri: vscode.Uri): void {
+  if (!runSessions.size) {
     return;
   }
-  if (!isDocumentInWorkspace(doc)) {
+  const config = vscode.workspace.getConfiguration("flutterRunner");
+  if (!config.get<boolean>("hotReloadOnSave", true)) {
     return;
   }
-
-  const autoHotReload = vscode.workspace
-    .getConfiguration("flutterRunner")
-    .get<boolean>("hotReloadOnSave", true);
-  if (!autoHotReload) {
+  const include = config.get<string[]>("hotReloadOnSaveInclude", DEFAULT_RELOAD_INCLUDE);
+  const exclude = config.get<string[]>("hotReloadOnSaveExclude", DEFAULT_RELOAD_EXCLUDE);
+  if (!matchesReloadFilters(vscode.workspace.asRelativePath(uri, false), include, exclude)) {
     return;
   }
 
+  changedDartFiles.add(uri.fsPath);
   if (hotReloadDebounceTimer) {
     clearTimeout(hotReloadDebounceTimer);
   }
   hotReloadDebounceTimer = setTimeout(() => {
-    void triggerHotReload("save");
-  }, 250);
+    hotReloadDebounceTimer = undefined;
+    void reloadForChangedFiles();
+  }, SAVE_RELOAD_DEBOUNCE_MS);
 }
 
-function isDocumentInWorkspace(doc: vscode.TextDocument): boolean {
-  const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
-  return Boolean(folder);
+/** Applies each session's `onSave` action when a changed file belongs to its app or a path dependency. */
+async function reloadForChangedFiles(): Promise<void> {
+  const files = Array.from(changedDartFiles);
+  changedDartFiles.clear();
+
+  await Promise.all(
+    Array.from(runSessions.values())
+      .filter((session) => Boolean(session.appId) && !session.stopping)
+      .map(async (session) => {
+        const folders = [session.folder, ...(await getPathDependencyFolders(session.folder))];
+        const changed = files.filter((file) => folders.some((folder) => isInsideFolder(file, folder)));
+        if (!changed.length) {
+          return;
+        }
+        const action = session.profile.onSave ?? "reload";
+        const fileLabel = changed.length === 1 ? path.basename(changed[0]) : `${changed.length} files`;
+        if (action === "none") {
+          session.console.appendLine("extension", `[on-save] ${fileLabel} changed; profile is set to do nothing.`);
+          return;
+        }
+        const label = action === "restart" ? "hot-restart" : "hot-reload";
+        session.console.appendLine("extension", `[${label}] Triggered on save (${fileLabel}).`);
+        if (!(await waitForBuildRunner(session, changed))) {
+          return;
+        }
+        if (action === "restart") {
+          clearRunConsoleForRestart(session);
+        }
+        await requestAppRestart(session, action === "restart", "save");
+      })
+  );
 }
 
 async function pickProfile(title: string): Promise<RunProfile | undefined> {
@@ -931,9 +3809,7 @@ async function pickProfile(title: string): Promise<RunProfile | undefined> {
   const selected = await vscode.window.showQuickPick(
     profiles.map((profile) => ({
       label: profile.name,
-      description: `${(profile.dartEntrypoint || "").trim() || "lib/main.dart"} | flavor: ${
-        (profile.flavor || "").trim() || "none"
-      }`,
+      description: describeProfile(profile),
       profile
     })),
     { title, matchOnDescription: true }
@@ -941,6 +3817,28 @@ async function pickProfile(title: string): Promise<RunProfile | undefined> {
   return selected?.profile;
 }
 
+type ProfileFormValues = {
+  name: string;
+  extends: string;
+  appPath: string;
+  dartEntrypoint: string;
+  flavor: string;
+  buildMode: string;
+  dartDefines: string;
+  dartDefineFromFile: string;
+  webPort: string;
+  webHostname: string;
+  webRenderer: string;
+  deviceVmServicePort: string;
+  preferredEmulator: string;
+  env: string;
+  extraArgs: string;
+  preLaunch: string;
+  buildRunnerWatch: string;
+  onSave: string;
+  autoRelaunch: string;
+};
+
 async function showProfileForm(
   context: vscode.ExtensionContext,
   initialProfile?: RunProfile
@@ -952,14 +3850,32 @@ async function showProfileForm(
     { enableScripts: true }
   );
 
-  const name = initialProfile?.name ?? "";
-  const entrypoint = (initialProfile?.dartEntrypoint || "").trim() || "lib/main.dart";
-  const flavor = (initialProfile?.flavor || "").trim();
+  const parentNames = getConfiguredProfiles()
+    .map((item) => item.name)
+    .filter((item) => item !== initialProfile?.name);
+  const inherits = Boolean(initialProfile?.extends);
 
-  panel.webview.html = getProfileFormHtml(panel.webview, {
-    name,
-    dartEntrypoint: entrypoint,
-    flavor
+  panel.webview.html = getProfileFormHtml(panel.webview, parentNames, {
+    name: initialProfile?.name ?? "",
+    extends: initialProfile?.extends ?? "",
+    appPath: initialProfile?.appPath ?? "",
+    dartEntrypoint: (initialProfile?.dartEntrypoint || "").trim() || (inherits ? "" : "lib/main.dart"),
+    flavor: (initialProfile?.flavor || "").trim(),
+    buildMode: initialProfile?.buildMode ?? "",
+    dartDefines: formatKeyValueLines(initialProfile?.dartDefines),
+    dartDefineFromFile: initialProfile?.dartDefineFromFile ?? "",
+    webPort: initialProfile?.webPort !== undefined ? String(initialProfile.webPort) : "",
+    webHostname: initialProfile?.webHostname ?? "",
+    webRenderer: initialProfile?.webRenderer ?? "",
+    deviceVmServicePort:
+      initialProfile?.deviceVmServicePort !== undefined ? String(initialProfile.deviceVmServicePort) : "",
+    preferredEmulator: initialProfile?.preferredEmulator ?? "",
+    env: formatKeyValueLines(initialProfile?.env),
+    extraArgs: (initialProfile?.extraArgs ?? []).join("\n"),
+    preLaunch: formatPreLaunchLines(initialProfile?.preLaunch),
+    buildRunnerWatch: initialProfile?.buildRunnerWatch ? "true" : "",
+    onSave: initialProfile?.onSave ?? "",
+    autoRelaunch: initialProfile?.autoRelaunch ? String(initialProfile.autoRelaunch.maxAttempts) : ""
   });
 
   return new Promise<RunProfile | undefined>((resolve) => {
@@ -977,12 +3893,7 @@ async function showProfileForm(
       if (!message || typeof message !== "object") {
         return;
       }
-      const payload = message as {
-        type?: string;
-        name?: string;
-        dartEntrypoint?: string;
-        flavor?: string;
-      };
+      const payload = message as { type?: string } & Partial<ProfileFormValues>;
       if (payload.type === "cancel") {
         disposeAndResolve(undefined);
         return;
@@ -992,9 +3903,6 @@ async function showProfileForm(
       }
 
       const normalizedName = (payload.name || "").trim();
-      const normalizedEntrypoint = (payload.dartEntrypoint || "").trim() || "lib/main.dart";
-      const normalizedFlavor = (payload.flavor || "").trim();
-
       if (!normalizedName) {
         void vscode.window.showErrorMessage("Profile name is required.");
         return;
@@ -1008,11 +3916,13 @@ async function showProfileForm(
         return;
       }
 
-      disposeAndResolve({
-        name: normalizedName,
-        dartEntrypoint: normalizedEntrypoint,
-        flavor: normalizedFlavor
-      });
+      const parsed = parseProfileForm(payload, initialProfile);
+      if (typeof parsed === "string") {
+        void vscode.window.showErrorMessage(parsed);
+        return;
+      }
+
+      disposeAndResolve({ ...parsed, name: normalizedName });
     });
 
     const disposeDisposable = panel.onDidDispose(() => {
@@ -1028,13 +3938,162 @@ async function showProfileForm(
   });
 }
 
+/** Returns the edited profile, or an error message for the first invalid field. */
+function parseProfileForm(values: Partial<ProfileFormValues>, initialProfile?: RunProfile): RunProfile | string {
+  // Keep custom fields the form does not know about.
+  const profile: RunProfile = { ...(initialProfile ?? { name: "" }) };
+  const parentName = (values.extends || "").trim();
+  setOptionalField(profile, "extends", parentName || undefined);
+  setOptionalField(profile, "appPath", (values.appPath || "").trim() || undefined);
+  // With a parent, empty fields are inherited instead of reset to their defaults.
+  const entrypoint = (values.dartEntrypoint || "").trim();
+  setOptionalField(profile, "dartEntrypoint", entrypoint || (parentName ? undefined : "lib/main.dart"));
+  const flavor = (values.flavor || "").trim();
+  setOptionalField(profile, "flavor", flavor || (parentName ? undefined : ""));
+
+  const buildMode = (values.buildMode || "").trim();
+  setOptionalField(
+    profile,
+    "buildMode",
+    BUILD_MODES.find((mode) => mode === buildMode)
+  );
+
+  const dartDefines = parseKeyValueLines(values.dartDefines || "");
+  if (typeof dartDefines === "string") {
+    return `Dart defines: ${dartDefines}`;
+  }
+  setOptionalField(profile, "dartDefines", Object.keys(dartDefines).length ? dartDefines : undefined);
+  setOptionalField(profile, "dartDefineFromFile", (values.dartDefineFromFile || "").trim() || undefined);
+
+  const webPort = parsePort(values.webPort || "");
+  if (webPort === null) {
+    return "Web port must be a number between 0 and 65535.";
+  }
+  setOptionalField(profile, "webPort", webPort);
+  setOptionalField(profile, "webHostname", (values.webHostname || "").trim() || undefined);
+  setOptionalField(profile, "webRenderer", (values.webRenderer || "").trim() || undefined);
+
+  const vmServicePort = parsePort(values.deviceVmServicePort || "");
+  if (vmServicePort === null) {
+    return "Device VM service port must be a number between 0 and 65535.";
+  }
+  setOptionalField(profile, "deviceVmServicePort", vmServicePort);
+  setOptionalField(profile, "preferredEmulator", (values.preferredEmulator || "").trim() || undefined);
+
+  const env = parseKeyValueLines(values.env || "");
+  if (typeof env === "string") {
+    return `Environment variables: ${env}`;
+  }
+  setOptionalField(profile, "env", Object.keys(env).length ? env : undefined);
+
+  const extraArgs = (values.extraArgs || "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  setOptionalField(profile, "extraArgs", extraArgs.length ? extraArgs : undefined);
+
+  const preLaunch = parsePreLaunchLines(values.preLaunch || "", initialProfile?.preLaunch ?? []);
+  setOptionalField(profile, "preLaunch", preLaunch.length ? preLaunch : undefined);
+  setOptionalField(profile, "buildRunnerWatch", values.buildRunnerWatch === "true" ? true : undefined);
+  setOptionalField(
+    profile,
+    "onSave",
+    SAVE_ACTIONS.find((action) => action === (values.onSave || "").trim())
+  );
+
+  const relaunchText = (values.autoRelaunch || "").trim();
+  const maxAttempts = relaunchText ? Number(relaunchText) : 0;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 0) {
+    return "Auto relaunch attempts must be a whole number (0 turns it off).";
+  }
+  // The backoff delays are only set in JSON; keep them when the attempt count changes.
+  setOptionalField(
+    profile,
+    "autoRelaunch",
+    maxAttempts > 0 ? { ...(initialProfile?.autoRelaunch ?? {}), maxAttempts } : undefined
+  );
+
+  return profile;
+}
+
+/** One step per line: `pubGet`, `buildRunner`, `task: <name>` or a shell command. */
+function formatPreLaunchLines(steps: PreLaunchStep[] | undefined): string {
+  return (steps ?? [])
+    .map((step) => (typeof step === "string" ? step : "task" in step ? `task: ${step.task}` : step.shell))
+    .join("\n");
+}
+
+/** Shell steps keep their `cwd` when the command itself is unchanged. */
+function parsePreLaunchLines(text: string, previous: PreLaunchStep[]): PreLaunchStep[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line): PreLaunchStep => {
+      if (line === "pubGet" || line === "buildRunner") {
+        return line;
+      }
+      const task = /^task:\s*(.+)$/.exec(line);
+      if (task) {
+        return { task: task[1].trim() };
+      }
+      const existing = previous.find(
+        (step): step is { shell: string; cwd?: string } => typeof step === "object" && "shell" in step && step.shell === line
+      );
+      return existing ?? { shell: line };
+    });
+}
+
+/** Parses `KEY=VALUE` lines; returns an error message for malformed lines. */
+function parseKeyValueLines(text: string): Record<string, string> | string {
+  const result: Record<string, string> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const separator = line.indexOf("=");
+    if (separator <= 0) {
+      return `expected KEY=VALUE, got "${line}".`;
+    }
+    result[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return result;
+}
+
+function formatKeyValueLines(values: Record<string, string> | undefined): string {
+  return Object.entries(values ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+}
+
+/** Returns `undefined` for an empty value and `null` for an invalid one. */
+function parsePort(text: string): number | undefined | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const port = Number(trimmed);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    return null;
+  }
+  return port;
+}
+
 function getProfileFormHtml(
   webview: vscode.Webview,
-  initial: { name: string; dartEntrypoint: string; flavor: string }
+  parentNames: string[],
+  initial: ProfileFormValues
 ): string {
-  const escapedName = escapeHtml(initial.name);
-  const escapedEntrypoint = escapeHtml(initial.dartEntrypoint);
-  const escapedFlavor = escapeHtml(initial.flavor);
+  const value = (field: keyof ProfileFormValues) => escapeHtml(initial[field]);
+  const options = (choices: string[], selected: string, emptyLabel?: string) =>
+    [
+      ...(emptyLabel !== undefined ? [`<option value="">${escapeHtml(emptyLabel)}</option>`] : []),
+      ...choices.map(
+        (choice) =>
+          `<option value="${escapeHtml(choice)}"${choice === selected ? " selected" : ""}>${escapeHtml(choice)}</option>`
+      )
+    ].join("");
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -1046,29 +4105,117 @@ function getProfileFormHtml(
     <style>
       body { font-family: var(--vscode-font-family); padding: 16px; color: var(--vscode-foreground); }
       .field { margin-bottom: 12px; }
+      .row { display: flex; gap: 12px; }
+      .row .field { flex: 1; }
       label { display: block; margin-bottom: 6px; font-weight: 600; }
-      input { width: 100%; box-sizing: border-box; padding: 8px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+      input, select, textarea { width: 100%; box-sizing: border-box; padding: 8px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); font-family: inherit; }
+      input[type="checkbox"] { width: auto; margin-right: 6px; }
+      textarea { min-height: 72px; font-family: var(--vscode-editor-font-family); }
       .actions { display: flex; gap: 8px; margin-top: 18px; }
       button { padding: 8px 12px; cursor: pointer; border: 1px solid transparent; }
       .primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
       .secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
       .hint { font-size: 12px; opacity: 0.8; margin-top: 4px; }
+      h3 { margin-top: 20px; }
     </style>
   </head>
   <body>
     <h2>Flutter Run Profile</h2>
     <div class="field">
       <label for="name">Profile Name</label>
-      <input id="name" value="${escapedName}" placeholder="dev" />
+      <input id="name" value="${value("name")}" placeholder="dev" />
+    </div>
+    <div class="field">
+      <label for="extends">Extends (optional)</label>
+      <select id="extends">${options(parentNames, initial.extends, "None")}</select>
+      <div class="hint">Empty fields are inherited from this profile. Strings support \${workspaceFolder}, \${env:NAME}, \${config:section.key} and \${profile.name}.</div>
+    </div>
+    <div class="field">
+      <label for="appPath">App Path (optional)</label>
+      <input id="appPath" value="${value("appPath")}" placeholder="apps/customer_app" />
+      <div class="hint">Always run this Flutter app with the profile. Relative to the workspace folder.</div>
     </div>
     <div class="field">
       <label for="entrypoint">Dart Entrypoint</label>
-      <input id="entrypoint" value="${escapedEntrypoint}" placeholder="lib/main.dart" />
+      <input id="entrypoint" value="${value("dartEntrypoint")}" placeholder="lib/main.dart" />
       <div class="hint">Default: lib/main.dart</div>
     </div>
+    <div class="row">
+      <div class="field">
+        <label for="flavor">Flavor (optional)</label>
+        <input id="flavor" value="${value("flavor")}" placeholder="dev" />
+      </div>
+      <div class="field">
+        <label for="buildMode">Build Mode</label>
+        <select id="buildMode">${options(BUILD_MODES, initial.buildMode, "Default")}</select>
+      </div>
+    </div>
+
+    <h3>Dart Defines</h3>
+    <div class="field">
+      <label for="dartDefines">--dart-define values</label>
+      <textarea id="dartDefines" placeholder="API_URL=https://dev.example.com">${value("dartDefines")}</textarea>
+      <div class="hint">One KEY=VALUE per line.</div>
+    </div>
+    <div class="field">
+      <label for="dartDefineFromFile">--dart-define-from-file (optional)</label>
+      <input id="dartDefineFromFile" value="${value("dartDefineFromFile")}" placeholder="config/dev.json" />
+    </div>
+
+    <h3>Web</h3>
+    <div class="row">
+      <div class="field">
+        <label for="webPort">Web Port</label>
+        <input id="webPort" value="${value("webPort")}" placeholder="8080" />
+      </div>
+      <div class="field">
+        <label for="webHostname">Web Hostname</label>
+        <input id="webHostname" value="${value("webHostname")}" placeholder="localhost" />
+      </div>
+      <div class="field">
+        <label for="webRenderer">Web Renderer</label>
+        <select id="webRenderer">${options(WEB_RENDERERS, initial.webRenderer, "Flutter default")}</select>
+      </div>
+    </div>
+
+    <h3>Advanced</h3>
+    <div class="field">
+      <label for="deviceVmServicePort">Device VM Service Port (optional)</label>
+      <input id="deviceVmServicePort" value="${value("deviceVmServicePort")}" placeholder="8181" />
+    </div>
+    <div class="field">
+      <label for="preferredEmulator">Preferred Emulator (optional)</label>
+      <input id="preferredEmulator" value="${value("preferredEmulator")}" placeholder="Pixel_7_API_34" />
+      <div class="hint">Emulator id from flutter emulators. Booted when no device is connected.</div>
+    </div>
+    <div class="field">
+      <label for="env">Environment Variables</label>
+      <textarea id="env" placeholder="JAVA_HOME=/path/to/jdk">${value("env")}</textarea>
+      <div class="hint">One KEY=VALUE per line. Passed to the flutter process.</div>
+    </div>
+    <div class="field">
+      <label for="extraArgs">Extra Arguments</label>
+      <textarea id="extraArgs" placeholder="--no-pub">${value("extraArgs")}</textarea>
+      <div class="hint">One argument per line, appended to flutter run.</div>
+    </div>
+    <div class="field">
+      <label for="preLaunch">Pre-launch Steps</label>
+      <textarea id="preLaunch" placeholder="pubGet&#10;buildRunner&#10;task: Generate l10n&#10;./scripts/prepare.sh">${value("preLaunch")}</textarea>
+      <div class="hint">One step per line, run in order before flutter run: pubGet, buildRunner, task: &lt;VS Code task&gt; or a shell command.</div>
+    </div>
+    <div class="field">
+      <label><input type="checkbox" id="buildRunnerWatch"${initial.buildRunnerWatch ? " checked" : ""} /> Run build_runner watch</label>
+      <div class="hint">Keeps dart run build_runner watch running next to the app; hot reload on save waits for it.</div>
+    </div>
+    <div class="field">
+      <label for="onSave">On Save</label>
+      <select id="onSave">${options(SAVE_ACTIONS, initial.onSave, "Default (reload)")}</select>
+      <div class="hint">What a saved file of this app does while it runs. Use restart for changes to main() or initState.</div>
+    </div>
     <div class="field">
-      <label for="flavor">Flavor (optional)</label>
-      <input id="flavor" value="${escapedFlavor}" placeholder="dev" />
+      <label for="autoRelaunch">Auto Relaunch Attempts (optional)</label>
+      <input id="autoRelaunch" value="${value("autoRelaunch")}" placeholder="5" />
+      <div class="hint">Relaunch the app this many times in a row when it crashes or loses its device, waiting longer each time. Empty or 0 turns it off.</div>
     </div>
     <div class="actions">
       <button class="primary" id="save">Save Profile</button>
@@ -1077,12 +4224,29 @@ function getProfileFormHtml(
 
     <script>
       const vscode = acquireVsCodeApi();
+      const read = (id) => document.getElementById(id).value;
       document.getElementById('save').addEventListener('click', () => {
         vscode.postMessage({
           type: 'save',
-          name: document.getElementById('name').value,
-          dartEntrypoint: document.getElementById('entrypoint').value,
-          flavor: document.getElementById('flavor').value
+          name: read('name'),
+          extends: read('extends'),
+          appPath: read('appPath'),
+          dartEntrypoint: read('entrypoint'),
+          flavor: read('flavor'),
+          buildMode: read('buildMode'),
+          dartDefines: read('dartDefines'),
+          dartDefineFromFile: read('dartDefineFromFile'),
+          webPort: read('webPort'),
+          webHostname: read('webHostname'),
+          webRenderer: read('webRenderer'),
+          deviceVmServicePort: read('deviceVmServicePort'),
+          preferredEmulator: read('preferredEmulator'),
+          env: read('env'),
+          extraArgs: read('extraArgs'),
+          preLaunch: read('preLaunch'),
+          buildRunnerWatch: document.getElementById('buildRunnerWatch').checked ? 'true' : '',
+          onSave: read('onSave'),
+          autoRelaunch: read('autoRelaunch')
         });
       });
       document.getElementById('cancel').addEventListener('click', () => {
@@ -1118,15 +4282,3 @@ function isWebDeviceId(deviceId: string): boolean {
   const normalized = deviceId.trim().toLowerCase();
   return normalized === "chrome" || normalized === "edge" || normalized === "web-server" || normalized.startsWith("web-");
 }
-
-function isLocalWebUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    return (
-      parsed.protocol === "http:" &&
-      (parsed.hostname === "127.0.0.1" || parsed.hostname === "localhost" || parsed.hostname === "[::1]")
-    );
-  } catch {
-    return false;
-  }
-}
@@ -0,0 +1,242 @@
+import { ChildProcessWithoutNullStreams } from "child_process";
+
+/** A device as reported by the daemon (`device.added`) or `flutter devices --machine`. */
+export type FlutterDevice = {
+  id: string;
+  name: string;
+  platform?: string;
+  category?: string;
+  platformType?: string;
+  emulator?: boolean;
+  emulatorId?: string;
+  sdk?: string;
+  isSupported?: boolean;
+};
+
+export type AppStartParams = {
+  appId: string;
+  deviceId: string;
+  directory: string;
+  supportsRestart: boolean;
+  launchMode?: string;
+};
+
+export type AppDebugPortParams = {
+  appId: string;
+  port: number;
+  wsUri: string;
+  baseUri?: string;
+};
+
+export type AppProgressParams = {
+  appId: string;
+  id: string;
+  progressId?: string;
+  message?: string;
+  finished?: boolean;
+};
+
+export type AppLogParams = {
+  appId: string;
+  log: string;
+  error?: boolean;
+};
+
+export type AppStopParams = {
+  appId: string;
+  error?: string;
+};
+
+export type FlutterDaemonEvent =
+  | { event: "daemon.connected"; params: { version: string; pid: number } }
+  | { event: "daemon.logMessage"; params: { level: string; message: string; stackTrace?: string } }
+  | { event: "app.start"; params: AppStartParams }
+  | { event: "app.debugPort"; params: AppDebugPortParams }
+  | { event: "app.started"; params: { appId: string } }
+  | { event: "app.progress"; params: AppProgressParams }
+  | { event: "app.log"; params: AppLogParams }
+  | { event: "app.webLaunchUrl"; params: { url: string; launched: boolean } }
+  | { event: "app.stop"; params: AppStopParams }
+  | { event: "device.added"; params: FlutterDevice }
+  | { event: "device.removed"; params: FlutterDevice };
+
+/** Result payload of `app.restart` (hot reload and hot restart). */
+export type AppRestartResult = {
+  code: number;
+  message: string;
+  hintMessage?: string;
+  hintId?: string;
+};
+
+/** Long enough for a hot restart of a large app; a request still pending after this is rejected. */
+const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+
+export type FlutterDaemon = {
+  sendRequest<T = unknown>(method: string, params?: Record<string, unknown>, timeoutMs?: number): Promise<T>;
+  dispose(): void;
+};
+
+/**
+ * Speaks the JSON-RPC protocol of `flutter run --machine` and `flutter daemon` over the child process stdio.
+ * Every protocol message is a single line wrapped in `[...]`; anything else is plain text.
+ */
+export function createFlutterDaemon(
+  child: ChildProcessWithoutNullStreams,
+  handlers: {
+    onEvent: (event: FlutterDaemonEvent) => void;
+    onText: (line: string) => void;
+  }
+): FlutterDaemon {
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+  >();
+  let nextRequestId = 1;
+  let buffer = "";
+  let disposed = false;
+
+  const handleLine = (line: string) => {
+    const message = parseDaemonLine(line);
+    if (!message) {
+      handlers.onText(line);
+      return;
+    }
+
+    if (typeof message.id === "number" && !("event" in message)) {
+      const request = pending.get(message.id);
+      if (!request) {
+        return;
+      }
+      pending.delete(message.id);
+      clearTimeout(request.timer);
+      if (message.error !== undefined && message.error !== null) {
+        request.reject(new Error(describeDaemonError(message.error)));
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    if (typeof message.event === "string") {
+      handlers.onEvent(message as FlutterDaemonEvent);
+    }
+  };
+
+  const onData = (text: string) => {
+    buffer += text;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      handleLine(line);
+    }
+  };
+
+  const rejectPending = (reason: string) => {
+    for (const request of pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(new Error(reason));
+    }
+    pending.clear();
+  };
+
+  const onClose = () => {
+    if (buffer.length > 0) {
+      handleLine(buffer);
+      buffer = "";
+    }
+    rejectPending("Flutter process exited before responding.");
+  };
+
+  // Writing to a process that already exited fails asynchronously (EPIPE); without a listener it would throw.
+  // The listener stays after dispose() for writes still in flight.
+  const onStdinError = (error: Error) => {
+    rejectPending(`Could not send to the Flutter process: ${error.message}`);
+  };
+
+  // Decodes across chunks, so a multi-byte character split between two reads stays intact.
+  child.stdout.setEncoding("utf8");
+  child.stdout.on("data", onData);
+  child.stdin.on("error", onStdinError);
+  child.on("close", onClose);
+
+  return {
+    sendRequest<T = unknown>(
+      method: string,
+      params?: Record<string, unknown>,
+      timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+    ): Promise<T> {
+      if (disposed || child.killed || child.stdin.destroyed) {
+        return Promise.reject(new Error("Flutter process is not running."));
+      }
+      const id = nextRequestId++;
+      return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pending.delete(id);
+          reject(new Error(`Flutter did not respond to ${method} within ${Math.round(timeoutMs / 1000)}s.`));
+        }, timeoutMs);
+        pending.set(id, { resolve: (value) => resolve(value as T), reject, timer });
+        child.stdin.write(`[${JSON.stringify({ id, method, params: params ?? {} })}]\n`);
+      });
+    },
+    dispose(): void {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      child.stdout.off("data", onData);
+      child.off("close", onClose);
+      rejectPending("Flutter daemon connection closed.");
+    }
+  };
+}
+
+/** Maps both device shapes (daemon events use `platform`, `flutter devices` uses `targetPlatform`). */
+export function toFlutterDevice(raw: unknown): FlutterDevice | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+  const value = raw as Record<string, unknown>;
+  if (typeof value.id !== "string" || typeof value.name !== "string") {
+    return undefined;
+  }
+  const text = (key: string) => (typeof value[key] === "string" ? (value[key] as string) : undefined);
+  return {
+    id: value.id,
+    name: value.name,
+    platform: text("platform") ?? text("targetPlatform"),
+    category: text("category"),
+    platformType: text("platformType"),
+    emulator: typeof value.emulator === "boolean" ? value.emulator : undefined,
+    emulatorId: text("emulatorId"),
+    sdk: text("sdk"),
+    isSupported: typeof value.isSupported === "boolean" ? value.isSupported : undefined
+  };
+}
+
+function parseDaemonLine(
+  line: string
+): { id?: unknown; event?: unknown; params?: unknown; result?: unknown; error?: unknown } | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("[{") || !trimmed.endsWith("}]")) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (!Array.isArray(parsed) || parsed.length !== 1 || !parsed[0] || typeof parsed[0] !== "object") {
+      return undefined;
+    }
+    return parsed[0] as { id?: unknown; event?: unknown; params?: unknown; result?: unknown; error?: unknown };
+  } catch {
+    return undefined;
+  }
+}
+
+function describeDaemonError(error: unknown): string {
+  if (typeof error === "string") {
+    return error;
+  }
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return JSON.stringify(error);
+}
@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import { spawn } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { killProcessTree, PROCESS_GROUP_SPAWN_OPTIONS } from "./processTree";
+import { PreLaunchStep } from "./profiles";
+
+export type PreLaunchLog = {
+  appendLine(level: "error" | "build" | "extension", line: string): void;
+  appendText(level: "build", text: string): void;
+};
+
+const BUILT_IN_STEPS: Record<"pubGet" | "buildRunner", { command: string; args: string[] }> = {
+  pubGet: { command: "flutter", args: ["pub", "get"] },
+  buildRunner: { command: "dart", args: ["run", "build_runner", "build", "--delete-conflicting-outputs"] }
+};
+
+/** A step still running after this long is stopped and counts as failed. */
+const STEP_TIMEOUT_MS = 10 * 60 * 1000;
+
+type StepOptions = { env?: Record<string, string>; log: PreLaunchLog; token: vscode.CancellationToken };
+
+export function describePreLaunchStep(step: PreLaunchStep): string {
+  if (typeof step === "string") {
+    return `${BUILT_IN_STEPS[step].command} ${BUILT_IN_STEPS[step].args.join(" ")}`;
+  }
+  return "task" in step ? `task "${step.task}"` : step.shell;
+}
+
+/**
+ * Runs the steps in order and stops at the first failure, timeout or cancellation.
+ * Returns the failed step's description and reason, or undefined when every step succeeded.
+ */
+export async function runPreLaunchSteps(
+  steps: PreLaunchStep[],
+  options: StepOptions & { folder: string }
+): Promise<{ step: string; reason: string; cancelled: boolean } | undefined> {
+  for (const step of steps) {
+    const description = describePreLaunchStep(step);
+    if (options.token.isCancellationRequested) {
+      return { step: description, reason: "cancelled", cancelled: true };
+    }
+    if (step === "pubGet" && (await isPubspecLockCurrent(options.folder))) {
+      options.log.appendLine("extension", `[preLaunch] Skipping ${description}: pubspec.lock is newer than pubspec.yaml.`);
+      continue;
+    }
+
+    options.log.appendLine("extension", `[preLaunch] ${description}`);
+    const startedAt = Date.now();
+    let failure: string | undefined;
+    if (typeof step === "string") {
+      failure = await runProcess(BUILT_IN_STEPS[step].command, BUILT_IN_STEPS[step].args, false, options.folder, options);
+    } else if ("task" in step) {
+      failure = await runTask(step.task, options);
+    } else {
+      const cwd = step.cwd ? path.resolve(options.folder, step.cwd) : options.folder;
+      failure = await runProcess(step.shell, [], true, cwd, options);
+    }
+
+    if (failure) {
+      const cancelled = options.token.isCancellationRequested;
+      options.log.appendLine(
+        cancelled ? "extension" : "error",
+        `[preLaunch] ${description} ${cancelled ? "was cancelled" : `failed: ${failure}`}.`
+      );
+      return { step: description, reason: failure, cancelled };
+    }
+    options.log.appendLine("extension", `[preLaunch] ${description} finished in ${Date.now() - startedAt}ms.`);
+  }
+  return undefined;
+}
+
+async function isPubspecLockCurrent(folder: string): Promise<boolean> {
+  try {
+    const [pubspec, lock] = await Promise.all([
+      fs.stat(path.join(folder, "pubspec.yaml")),
+      fs.stat(path.join(folder, "pubspec.lock"))
+    ]);
+    return lock.mtimeMs > pubspec.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+/** Calls `stop` with a reason when the step times out or is cancelled; the returned function stops watching. */
+function watchForStop(token: vscode.CancellationToken, stop: (reason: string) => void): () => void {
+  const timer = setTimeout(() => stop(`timed out after ${STEP_TIMEOUT_MS / 60000} minutes`), STEP_TIMEOUT_MS);
+  const cancellation = token.onCancellationRequested(() => stop("cancelled"));
+  return () => {
+    clearTimeout(timer);
+    cancellation.dispose();
+  };
+}
+
+/** Resolves with a failure reason, or undefined when the process exited with code 0. */
+function runProcess(
+  command: string,
+  args: string[],
+  shell: boolean,
+  cwd: string,
+  options: StepOptions
+): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: { ...process.env, ...(options.env ?? {}) },
+      shell,
+      ...PROCESS_GROUP_SPAWN_OPTIONS
+    });
+    const finish = (failure: string | undefined) => {
+      stopWatching();
+      resolve(failure);
+    };
+    const stopWatching = watchForStop(options.token, (reason) => {
+      // Shell steps run their commands as children of the shell; stop all of them.
+      killProcessTree(child, "SIGTERM");
+      finish(reason);
+    });
+    child.stdout.setEncoding("utf8");
+    child.stderr.setEncoding("utf8");
+    child.stdout.on("data", (text: string) => options.log.appendText("build", text));
+    child.stderr.on("data", (text: string) => options.log.appendText("build", text));
+    child.on("error", (error) => finish(error.message));
+    child.on("close", (code) => finish(code === 0 ? undefined : `exit code ${code ?? "unknown"}`));
+  });
+}
+
+/** Runs a VS Code task by name (`name` or `source: name`); its output stays in the task terminal. */
+async function runTask(name: string, options: StepOptions): Promise<string | undefined> {
+  const tasks = await vscode.tasks.fetchTasks();
+  const task = tasks.find((candidate) => candidate.name === name || `${candidate.source}: ${candidate.name}` === name);
+  if (!task) {
+    return `no task named "${name}"`;
+  }
+  // Neither ends with a process exit code, so the run could not tell when (or whether) they succeeded.
+  if (task.isBackground) {
+    return `task "${task.name}" is a background task and does not finish`;
+  }
+  if (task.execution instanceof vscode.CustomExecution) {
+    return `task "${task.name}" uses a custom execution, which reports no exit code`;
+  }
+
+  options.log.appendLine("extension", `[preLaunch] Task output is shown in the "${task.name}" terminal.`);
+  return new Promise((resolve) => {
+    let execution: vscode.TaskExecution | undefined;
+    let settled = false;
+    // A short task can end before executeTask() resolves with its execution.
+    const earlyExits = new Map<vscode.TaskExecution, number | undefined>();
+    const finish = (failure: string | undefined) => {
+      settled = true;
+      stopWatching();
+      onEnd.dispose();
+      resolve(failure);
+    };
+    const onExit = (exitCode: number | undefined) =>
+      finish(exitCode === 0 ? undefined : `exit code ${exitCode ?? "unknown"}`);
+    const onEnd = vscode.tasks.onDidEndTaskProcess((event) => {
+      if (!execution) {
+        earlyExits.set(event.execution, event.exitCode);
+      } else if (event.execution === execution) {
+        onExit(event.exitCode);
+      }
+    });
+    const stopWatching = watchForStop(options.token, (reason) => {
+      execution?.terminate();
+      finish(reason);
+    });
+    vscode.tasks.executeTask(task).then(
+      (started) => {
+        if (settled) {
+          started.terminate();
+          return;
+        }
+        execution = started;
+        if (earlyExits.has(started)) {
+          onExit(earlyExits.get(started));
+        }
+      },
+      (error: unknown) => finish(error instanceof Error ? error.message : String(error))
+    );
+  });
+}
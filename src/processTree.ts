@@ -0,0 +1,53 @@
+import { ChildProcess, spawn } from "child_process";
+
+/**
+ * On POSIX the child leads its own process group, so Gradle, dart and web server processes it starts can be
+ * signalled together. Windows has no process groups; `taskkill /T` walks the tree instead.
+ */
+export const PROCESS_GROUP_SPAWN_OPTIONS = { detached: process.platform !== "win32" };
+
+/** True when the process has exited, or never started. */
+export function hasExited(child: ChildProcess): boolean {
+  return child.pid === undefined || child.exitCode !== null || child.signalCode !== null;
+}
+
+/** Resolves true once the process has exited, or false after `timeoutMs`. */
+export function waitForExit(child: ChildProcess, timeoutMs: number): Promise<boolean> {
+  if (hasExited(child)) {
+    return Promise.resolve(true);
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      child.off("exit", onExit);
+      resolve(false);
+    }, timeoutMs);
+    const onExit = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    child.once("exit", onExit);
+  });
+}
+
+/**
+ * Signals the child and everything it started. Does nothing once the child has exited: its pid, and with it
+ * the process group id, may already belong to an unrelated process.
+ */
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  const pid = child.pid;
+  if (pid === undefined || hasExited(child)) {
+    return;
+  }
+  if (process.platform === "win32") {
+    spawn("taskkill", ["/pid", String(pid), "/T", "/F"], { windowsHide: true, stdio: "ignore" }).on("error", () => {
+      child.kill(signal);
+    });
+    return;
+  }
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // No process group (spawned without PROCESS_GROUP_SPAWN_OPTIONS).
+    child.kill(signal);
+  }
+}
@@ -0,0 +1,238 @@
+export type BuildMode = "debug" | "profile" | "release";
+export type SaveAction = "reload" | "restart" | "none";
+
+/** A built-in step (`pubGet`, `buildRunner`), a VS Code task or a shell command run before `flutter run`. */
+export type PreLaunchStep = "pubGet" | "buildRunner" | { task: string } | { shell: string; cwd?: string };
+
+/** Relaunches a run that crashed or lost its device, waiting longer before each attempt. */
+export type AutoRelaunch = { maxAttempts: number; initialDelayMs?: number; maxDelayMs?: number };
+
+export type RunProfile = {
+  name: string;
+  extends?: string;
+  appPath?: string;
+  dartEntrypoint?: string;
+  flavor?: string;
+  buildMode?: BuildMode;
+  dartDefines?: Record<string, string>;
+  dartDefineFromFile?: string;
+  webPort?: number;
+  webHostname?: string;
+  webRenderer?: string;
+  deviceVmServicePort?: number;
+  preferredEmulator?: string;
+  env?: Record<string, string>;
+  extraArgs?: string[];
+  preLaunch?: PreLaunchStep[];
+  buildRunnerWatch?: boolean;
+  onSave?: SaveAction;
+  autoRelaunch?: AutoRelaunch;
+  [key: string]: unknown;
+};
+
+/** Values available to `${...}` variables in profile fields. */
+export type ProfileVariableContext = {
+  workspaceFolder?: string;
+  env: NodeJS.ProcessEnv;
+  getConfig: (key: string) => unknown;
+  /** Leaves `${env:NAME}` as written, so values from the environment are not copied into saved state. */
+  keepEnvVariables?: boolean;
+};
+
+export const BUILD_MODES: BuildMode[] = ["debug", "profile", "release"];
+export const SAVE_ACTIONS: SaveAction[] = ["reload", "restart", "none"];
+export const WEB_RENDERERS = ["auto", "canvaskit", "html", "skwasm"];
+
+/** Fields merged key by key with the parent instead of being replaced. */
+const MERGED_RECORD_FIELDS = ["dartDefines", "env"] as const;
+const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Applies `extends` chains so every profile carries its parents' fields.
+ * Profiles with an unknown parent, in a cycle or extending such a profile keep only their own fields
+ * and are reported in `errors`.
+ */
+export function resolveProfileInheritance(profiles: RunProfile[]): { profiles: RunProfile[]; errors: string[] } {
+  const byName = new Map(profiles.map((profile) => [profile.name, profile]));
+  const resolved = new Map<string, RunProfile>();
+  const unresolved = new Set<string>();
+  const errors: string[] = [];
+
+  const resolve = (profile: RunProfile, chain: string[]): RunProfile => {
+    const cached = resolved.get(profile.name);
+    if (cached) {
+      return cached;
+    }
+
+    const parentName = typeof profile.extends === "string" ? profile.extends.trim() : "";
+    let result: RunProfile = profile;
+    if (parentName) {
+      const parent = byName.get(parentName);
+      if (!parent) {
+        errors.push(`Profile "${profile.name}" extends unknown profile "${parentName}".`);
+        unresolved.add(profile.name);
+      } else if (chain.includes(parentName)) {
+        const cycle = [...chain.slice(chain.indexOf(parentName)), parentName];
+        errors.push(`Profile inheritance cycle: ${cycle.join(" -> ")}.`);
+        cycle.forEach((name) => unresolved.add(name));
+      } else {
+        const resolvedParent = resolve(parent, [...chain, parentName]);
+        // A cycle found while resolving the parent can include this profile as well.
+        if (unresolved.has(parentName) && !unresolved.has(profile.name)) {
+          errors.push(`Profile "${profile.name}" extends "${parentName}", which could not be resolved.`);
+          unresolved.add(profile.name);
+        }
+        if (!unresolved.has(profile.name)) {
+          result = mergeProfiles(resolvedParent, profile);
+        }
+      }
+    }
+
+    resolved.set(profile.name, result);
+    return result;
+  };
+
+  const result = profiles.map((profile) => resolve(profile, [profile.name]));
+  return { profiles: result, errors: Array.from(new Set(errors)) };
+}
+
+function mergeProfiles(parent: RunProfile, child: RunProfile): RunProfile {
+  const merged: RunProfile = { ...parent, ...child };
+  for (const key of MERGED_RECORD_FIELDS) {
+    if (isRecord(parent[key]) && isRecord(child[key])) {
+      merged[key] = { ...parent[key], ...child[key] };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Expands `${workspaceFolder}`, `${env:NAME}`, `${config:section.key}` and `${profile.<field>}`
+ * in every string of the profile, including array items and record values.
+ * Unknown variables are left untouched.
+ */
+export function substituteProfileVariables(profile: RunProfile, context: ProfileVariableContext): RunProfile {
+  const expand = (text: string): string =>
+    text.replace(VARIABLE_PATTERN, (match, variable: string) => {
+      const name = variable.trim();
+      if (name === "workspaceFolder") {
+        return context.workspaceFolder ?? match;
+      }
+      if (name.startsWith("env:")) {
+        return context.keepEnvVariables ? match : context.env[name.slice(4)] ?? "";
+      }
+      if (name.startsWith("config:")) {
+        const value = context.getConfig(name.slice(7));
+        return value === undefined || value === null ? "" : String(value);
+      }
+      if (name.startsWith("profile.")) {
+        const value = profile[name.slice(8)];
+        return typeof value === "string" || typeof value === "number" ? String(value) : match;
+      }
+      return match;
+    });
+
+  const visit = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return expand(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (isRecord(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visit(item)]));
+    }
+    return value;
+  };
+
+  const substituted = visit(profile) as RunProfile;
+  // The profile name identifies the profile in settings and must stay stable.
+  substituted.name = profile.name;
+  return substituted;
+}
+
+/** Drops typed run options that have the wrong shape instead of passing them to flutter. */
+export function normalizeProfile(profile: RunProfile): RunProfile {
+  const normalized: RunProfile = {
+    ...profile,
+    dartEntrypoint: (profile.dartEntrypoint || "").trim() || "lib/main.dart",
+    flavor: (profile.flavor || "").trim()
+  };
+  setOptionalField(
+    normalized,
+    "buildMode",
+    BUILD_MODES.includes(profile.buildMode as BuildMode) ? profile.buildMode : undefined
+  );
+  setOptionalField(normalized, "onSave", SAVE_ACTIONS.includes(profile.onSave as SaveAction) ? profile.onSave : undefined);
+  setOptionalField(normalized, "dartDefines", toStringRecord(profile.dartDefines));
+  setOptionalField(normalized, "env", toStringRecord(profile.env));
+  setOptionalField(
+    normalized,
+    "extraArgs",
+    Array.isArray(profile.extraArgs) ? profile.extraArgs.map((arg) => String(arg)) : undefined
+  );
+  setOptionalField(
+    normalized,
+    "preLaunch",
+    Array.isArray(profile.preLaunch) ? profile.preLaunch.filter(isPreLaunchStep) : undefined
+  );
+  setOptionalField(normalized, "buildRunnerWatch", profile.buildRunnerWatch === true ? true : undefined);
+  setOptionalField(normalized, "autoRelaunch", toAutoRelaunch(profile.autoRelaunch));
+  for (const key of ["extends", "appPath", "dartDefineFromFile", "webHostname", "webRenderer", "preferredEmulator"] as const) {
+    const value = profile[key];
+    setOptionalField(normalized, key, typeof value === "string" && value.trim() ? value.trim() : undefined);
+  }
+  for (const key of ["webPort", "deviceVmServicePort"] as const) {
+    const value = profile[key];
+    setOptionalField(normalized, key, Number.isInteger(value) ? value : undefined);
+  }
+  return normalized;
+}
+
+export function setOptionalField<K extends keyof RunProfile>(
+  profile: RunProfile,
+  key: K,
+  value: RunProfile[K] | undefined
+): void {
+  if (value === undefined) {
+    delete profile[key];
+  } else {
+    profile[key] = value;
+  }
+}
+
+function toStringRecord(value: unknown): Record<string, string> | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const entries = Object.entries(value).filter(([, item]) => item !== undefined && item !== null);
+  return entries.length ? Object.fromEntries(entries.map(([key, item]) => [key, String(item)])) : undefined;
+}
+
+function toAutoRelaunch(value: unknown): AutoRelaunch | undefined {
+  if (!isRecord(value) || !Number.isInteger(value.maxAttempts) || (value.maxAttempts as number) < 1) {
+    return undefined;
+  }
+  const policy: AutoRelaunch = { maxAttempts: value.maxAttempts as number };
+  for (const key of ["initialDelayMs", "maxDelayMs"] as const) {
+    const delay = value[key];
+    if (typeof delay === "number" && delay >= 0) {
+      policy[key] = delay;
+    }
+  }
+  return policy;
+}
+
+function isPreLaunchStep(value: unknown): value is PreLaunchStep {
+  if (value === "pubGet" || value === "buildRunner") {
+    return true;
+  }
+  if (!isRecord(value)) {
+    return false;
+  }
+  return typeof value.task === "string" || typeof value.shell === "string";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
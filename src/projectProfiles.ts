@@ -0,0 +1,190 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Document, isMap, isNode, parseDocument } from "yaml";
+import { RunProfile } from "./profiles";
+
+/** Looked up in this order next to the app's pubspec.yaml. */
+export const PROJECT_PROFILE_FILE_NAMES = ["flutter_runner.yaml", "flutter_runner.yml", "flutter_runner.json"];
+
+export type ProfileFilePosition = { line: number; character: number };
+
+export type ProfileFileProblem = {
+  message: string;
+  severity: "error" | "warning";
+  start: ProfileFilePosition;
+  end: ProfileFilePosition;
+};
+
+export type ProjectProfileFile = {
+  filePath: string;
+  modifiedAt: number;
+  profiles: RunProfile[];
+  problems: ProfileFileProblem[];
+};
+
+export async function findProjectProfileFile(projectFolder: string): Promise<string | undefined> {
+  for (const fileName of PROJECT_PROFILE_FILE_NAMES) {
+    const candidate = path.join(projectFolder, fileName);
+    try {
+      const stat = await fs.stat(candidate);
+      if (stat.isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Try the next file name.
+    }
+  }
+  return undefined;
+}
+
+export function createProfileFileValidator(schema: object): ValidateFunction {
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  return ajv.compile(schema);
+}
+
+/**
+ * Reads a project profile file (YAML or JSON; JSON is parsed as YAML to keep source ranges).
+ * Profiles without a string `name` are skipped; every problem is reported with its location.
+ */
+export async function loadProjectProfileFile(
+  filePath: string,
+  validate: ValidateFunction
+): Promise<ProjectProfileFile> {
+  const [text, stat] = await Promise.all([fs.readFile(filePath, "utf8"), fs.stat(filePath)]);
+  const lineStarts = getLineStarts(text);
+  const toRange = (range: readonly number[] | null | undefined) => ({
+    start: offsetToPosition(lineStarts, range?.[0] ?? 0),
+    end: offsetToPosition(lineStarts, range?.[1] ?? range?.[0] ?? 0)
+  });
+
+  const doc = parseDocument(text, { prettyErrors: false });
+  const problems: ProfileFileProblem[] = [];
+  for (const error of doc.errors) {
+    problems.push({ message: error.message, severity: "error", ...toRange(error.pos) });
+  }
+  if (doc.errors.length > 0) {
+    return { filePath, modifiedAt: stat.mtimeMs, profiles: [], problems };
+  }
+
+  const content = (doc.toJS() ?? {}) as unknown;
+  if (!validate(content)) {
+    for (const error of validate.errors ?? []) {
+      const segments = error.instancePath
+        .split("/")
+        .slice(1)
+        .map((segment) => decodePointerSegment(segment));
+      const node = segments.length ? doc.getIn(segments, true) : doc.contents;
+      problems.push({
+        message: describeSchemaError(error),
+        severity: "error",
+        ...toRange(isNode(node) ? node.range : doc.contents?.range)
+      });
+    }
+  }
+
+  const profiles: RunProfile[] = [];
+  const seenNames = new Set<string>();
+  const items =
+    content && typeof content === "object" && Array.isArray((content as { profiles?: unknown }).profiles)
+      ? ((content as { profiles: unknown[] }).profiles)
+      : [];
+  items.forEach((item, index) => {
+    if (!item || typeof item !== "object" || typeof (item as RunProfile).name !== "string") {
+      return;
+    }
+    const profile = item as RunProfile;
+    if (seenNames.has(profile.name)) {
+      const node = doc.getIn(["profiles", index], true);
+      problems.push({
+        message: `Duplicate profile name "${profile.name}"; only the first one is used.`,
+        severity: "warning",
+        ...toRange(isNode(node) ? node.range : undefined)
+      });
+      return;
+    }
+    seenNames.add(profile.name);
+    profiles.push(profile);
+  });
+
+  return { filePath, modifiedAt: stat.mtimeMs, profiles, problems };
+}
+
+/** Replaces the `profiles` list and keeps the rest of the file (YAML comments included) as is. */
+export async function writeProjectProfileFile(filePath: string, profiles: RunProfile[]): Promise<void> {
+  let text = "";
+  try {
+    text = await fs.readFile(filePath, "utf8");
+  } catch {
+    // Create the file below.
+  }
+
+  if (path.extname(filePath).toLowerCase() === ".json") {
+    let content: Record<string, unknown> = {};
+    try {
+      const parsed = text.trim() ? (JSON.parse(text) as unknown) : {};
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        content = parsed as Record<string, unknown>;
+      }
+    } catch {
+      throw new Error(`${path.basename(filePath)} is not valid JSON. Fix it before saving profiles.`);
+    }
+    content.profiles = profiles;
+    await fs.writeFile(filePath, `${JSON.stringify(content, null, 2)}\n`, "utf8");
+    return;
+  }
+
+  const doc: Document = parseDocument(text);
+  if (doc.errors.length > 0) {
+    throw new Error(`${path.basename(filePath)} has YAML errors. Fix them before saving profiles.`);
+  }
+  if (!isMap(doc.contents)) {
+    doc.contents = doc.createNode({});
+  }
+  doc.set("profiles", doc.createNode(profiles));
+  await fs.writeFile(filePath, doc.toString(), "utf8");
+}
+
+function describeSchemaError(error: ErrorObject): string {
+  const location = error.instancePath ? error.instancePath.slice(1).replace(/\//g, ".") : "file";
+  if (error.keyword === "additionalProperties") {
+    return `${location}: unknown property "${String(error.params.additionalProperty)}".`;
+  }
+  if (error.keyword === "required") {
+    return `${location}: missing required property "${String(error.params.missingProperty)}".`;
+  }
+  if (error.keyword === "enum") {
+    const allowed = (error.params.allowedValues as unknown[]).map((value) => JSON.stringify(value)).join(", ");
+    return `${location}: must be one of ${allowed}.`;
+  }
+  return `${location}: ${error.message ?? "is invalid"}.`;
+}
+
+function decodePointerSegment(segment: string): string | number {
+  const decoded = segment.replace(/~1/g, "/").replace(/~0/g, "~");
+  return /^\d+$/.test(decoded) ? Number(decoded) : decoded;
+}
+
+function getLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === "\n") {
+      starts.push(index + 1);
+    }
+  }
+  return starts;
+}
+
+function offsetToPosition(lineStarts: number[], offset: number): ProfileFilePosition {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return { line: low, character: offset - lineStarts[low] };
+}
@@ -0,0 +1,391 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+/** `error`: Flutter framework and tool errors, `app`: print/debugPrint, `build`: flutter tool output, `extension`: Flutter Runner messages. */
+export type ConsoleLevel = "error" | "app" | "build" | "extension";
+
+export type ConsoleEntry = {
+  id: number;
+  level: ConsoleLevel;
+  text: string;
+  time: number;
+  /** Set for collapsed "EXCEPTION CAUGHT BY ..." blocks. */
+  details?: string[];
+};
+
+/**
+ * A run console for one device: every line is also written to the device's output channel,
+ * and the webview panel is created on demand and replays the buffered entries.
+ */
+export type RunConsole = {
+  /** Folder of the running app, used to resolve `package:` and relative stack frames. */
+  projectFolder: string | undefined;
+  /** Receives every line written to the output channel, for example to keep a log file of the session. */
+  tee: ((text: string) => void) | undefined;
+  appendLine(level: ConsoleLevel, line: string): void;
+  /** Appends raw process output that may end in the middle of a line. */
+  appendText(level: ConsoleLevel, text: string): void;
+  clear(): void;
+  /** Text of the last `count` error entries written since `since` (epoch ms), oldest first. */
+  getRecentErrors(count: number, since: number): string[];
+  show(preserveFocus?: boolean): void;
+  dispose(): void;
+};
+
+const MAX_ENTRIES = 5000;
+const FLUSH_DELAY_MS = 100;
+const ERROR_BLOCK_START = /^═+╡\s*(.+?)\s*╞═*$/;
+const ERROR_BLOCK_END = /^═{20,}$/;
+const ERROR_LINE = /^(Another exception was thrown:|\[ERROR:|Unhandled exception:|\S+\.dart:\d+:\d+: Error:)/;
+
+/** `onEntry` receives every entry once it is complete (exception blocks when their closing line arrives). */
+export function createRunConsole(
+  title: string,
+  output: vscode.OutputChannel,
+  onEntry?: (entry: ConsoleEntry) => void
+): RunConsole {
+  let entries: ConsoleEntry[] = [];
+  let nextEntryId = 1;
+  let openBlock: ConsoleEntry | undefined;
+  let panel: vscode.WebviewPanel | undefined;
+  let pending = new Map<number, ConsoleEntry>();
+  let flushTimer: NodeJS.Timeout | undefined;
+  const partialLines = new Map<ConsoleLevel, string>();
+
+  const post = (message: unknown) => {
+    void panel?.webview.postMessage(message);
+  };
+
+  const scheduleFlush = (entry: ConsoleEntry) => {
+    if (!panel) {
+      return;
+    }
+    pending.set(entry.id, entry);
+    flushTimer ??= setTimeout(() => {
+      flushTimer = undefined;
+      const batch = Array.from(pending.values());
+      pending = new Map();
+      post({ type: "upsert", entries: batch });
+    }, FLUSH_DELAY_MS);
+  };
+
+  const addEntry = (level: ConsoleLevel, text: string, details?: string[]) => {
+    const entry: ConsoleEntry = { id: nextEntryId++, level, text, time: Date.now(), details };
+    entries.push(entry);
+    if (entries.length > MAX_ENTRIES) {
+      entries = entries.slice(entries.length - MAX_ENTRIES);
+    }
+    scheduleFlush(entry);
+    return entry;
+  };
+
+  const addLine = (level: ConsoleLevel, line: string) => {
+    const isAppLine = level === "app" || level === "error";
+    if (openBlock && isAppLine) {
+      if (ERROR_BLOCK_END.test(line.trim())) {
+        onEntry?.(openBlock);
+        openBlock = undefined;
+        return;
+      }
+      openBlock.details?.push(line);
+      // The block header is followed by "The following ... was thrown ...:" and then the actual message.
+      if (!openBlock.text.includes(": ") && line.trim() && !/^The following /.test(line.trim())) {
+        openBlock.text = `${openBlock.text}: ${line.trim()}`;
+      }
+      scheduleFlush(openBlock);
+      return;
+    }
+
+    const blockStart = isAppLine ? ERROR_BLOCK_START.exec(line.trim()) : null;
+    if (blockStart) {
+      openBlock = addEntry("error", blockStart[1], []);
+      return;
+    }
+    onEntry?.(addEntry(ERROR_LINE.test(line.trim()) ? "error" : level, line));
+  };
+
+  const openLocation = async (uri: string, line: number, column: number) => {
+    const filePath = await resolveDartLocation(uri, runConsole.projectFolder);
+    if (!filePath) {
+      void vscode.window.showWarningMessage(`Could not find the source file for ${uri}.`);
+      return;
+    }
+    const position = new vscode.Position(Math.max(line - 1, 0), Math.max(column - 1, 0));
+    try {
+      const document = await vscode.workspace.openTextDocument(filePath);
+      await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.One,
+        selection: new vscode.Range(position, position)
+      });
+    } catch (error) {
+      void vscode.window.showWarningMessage(
+        `Could not open ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  const runConsole: RunConsole = {
+    projectFolder: undefined,
+    tee: undefined,
+    appendLine(level: ConsoleLevel, line: string): void {
+      output.appendLine(line);
+      runConsole.tee?.(`${line}\n`);
+      for (const item of line.split(/\r?\n/)) {
+        addLine(level, item);
+      }
+    },
+    appendText(level: ConsoleLevel, text: string): void {
+      output.append(text);
+      runConsole.tee?.(text);
+      const lines = `${partialLines.get(level) ?? ""}${text}`.split(/\r?\n/);
+      partialLines.set(level, lines.pop() ?? "");
+      for (const line of lines) {
+        addLine(level, line);
+      }
+    },
+    clear(): void {
+      entries = [];
+      openBlock = undefined;
+      pending.clear();
+      post({ type: "clear" });
+    },
+    getRecentErrors(count: number, since: number): string[] {
+      return entries
+        .filter((entry) => entry.level === "error" && entry.time >= since && entry.text.trim())
+        .slice(-count)
+        .map((entry) => entry.text.trim());
+    },
+    show(preserveFocus = false): void {
+      if (panel) {
+        panel.reveal(undefined, preserveFocus);
+        return;
+      }
+      panel = vscode.window.createWebviewPanel(
+        "flutterRunnerRunConsole",
+        title,
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus },
+        { enableScripts: true, retainContextWhenHidden: true }
+      );
+      panel.webview.html = getRunConsoleHtml(panel.webview);
+      panel.webview.onDidReceiveMessage((message: unknown) => {
+        if (!message || typeof message !== "object") {
+          return;
+        }
+        const payload = message as { type?: string; uri?: unknown; line?: unknown; column?: unknown };
+        if (payload.type === "ready") {
+          pending.clear();
+          post({ type: "reset", entries });
+        } else if (payload.type === "clear") {
+          runConsole.clear();
+        } else if (payload.type === "open" && typeof payload.uri === "string") {
+          void openLocation(payload.uri, Number(payload.line) || 1, Number(payload.column) || 1);
+        }
+      });
+      panel.onDidDispose(() => {
+        panel = undefined;
+        pending.clear();
+      });
+    },
+    dispose(): void {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = undefined;
+      }
+      panel?.dispose();
+    }
+  };
+  return runConsole;
+}
+
+/**
+ * Maps a stack frame location (`package:`, `file:` or a path relative to the app) to a file path.
+ * `package:` URIs are resolved through the app's `.dart_tool/package_config.json`.
+ */
+export async function resolveDartLocation(uri: string, projectFolder: string | undefined): Promise<string | undefined> {
+  if (uri.startsWith("file:")) {
+    try {
+      return fileURLToPath(uri);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!projectFolder) {
+    return path.isAbsolute(uri) ? uri : undefined;
+  }
+  if (!uri.startsWith("package:")) {
+    return path.resolve(projectFolder, uri);
+  }
+
+  const [packageName, ...rest] = uri.slice("package:".length).split("/");
+  const configPath = path.join(projectFolder, ".dart_tool", "package_config.json");
+  try {
+    const config = JSON.parse(await fs.readFile(configPath, "utf8")) as {
+      packages?: { name?: string; rootUri?: string; packageUri?: string }[];
+    };
+    const entry = config.packages?.find((item) => item.name === packageName);
+    if (!entry?.rootUri) {
+      return undefined;
+    }
+    const rootUri = new URL(entry.rootUri.endsWith("/") ? entry.rootUri : `${entry.rootUri}/`, pathToFileURL(configPath));
+    const packageRoot = new URL(entry.packageUri ?? "lib/", rootUri);
+    return fileURLToPath(new URL(rest.join("/"), packageRoot));
+  } catch {
+    return undefined;
+  }
+}
+
+function getRunConsoleHtml(webview: vscode.Webview): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'unsafe-inline';" />
+    <title>Flutter Run Console</title>
+    <style>
+      body { margin: 0; padding: 0; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+      .toolbar { position: sticky; top: 0; display: flex; gap: 10px; align-items: center; padding: 6px 10px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+      .toolbar input[type="text"] { flex: 1; padding: 4px 6px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+      .toolbar label { white-space: nowrap; font-size: 12px; }
+      button { padding: 4px 10px; cursor: pointer; border: 1px solid transparent; background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+      #entries { padding: 4px 10px; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+      .entry { white-space: pre-wrap; word-break: break-word; padding: 1px 0; }
+      .entry.error { color: var(--vscode-errorForeground); }
+      .entry.build { opacity: 0.75; }
+      .entry.extension { color: var(--vscode-textLink-foreground); }
+      .entry.hidden { display: none; }
+      details pre { margin: 4px 0 4px 16px; white-space: pre-wrap; color: var(--vscode-foreground); font-family: inherit; }
+      summary { cursor: pointer; }
+      a { color: var(--vscode-textLink-foreground); cursor: pointer; text-decoration: underline; }
+    </style>
+  </head>
+  <body>
+    <div class="toolbar">
+      <input id="filter" type="text" placeholder="Filter" />
+      <label><input type="checkbox" data-level="error" checked /> Errors</label>
+      <label><input type="checkbox" data-level="app" checked /> App</label>
+      <label><input type="checkbox" data-level="build" checked /> Build</label>
+      <label><input type="checkbox" data-level="extension" checked /> Runner</label>
+      <button id="clear">Clear</button>
+    </div>
+    <div id="entries"></div>
+
+    <script>
+      const vscode = acquireVsCodeApi();
+      const MAX_ENTRIES = ${MAX_ENTRIES};
+      const FRAME_PATTERN = /(package:[^\\s:()]+\\.dart|file:\\/\\/\\/?(?:[A-Za-z]:)?[^\\s:()]+\\.dart|(?:lib|test|integration_test|bin)\\/[^\\s:()]+\\.dart)(?::(\\d+))?(?::(\\d+))?/g;
+      const container = document.getElementById('entries');
+      const filterInput = document.getElementById('filter');
+      const levelBoxes = Array.from(document.querySelectorAll('input[data-level]'));
+      const nodes = new Map();
+
+      const linkify = (parent, text) => {
+        let last = 0;
+        for (const match of text.matchAll(FRAME_PATTERN)) {
+          parent.appendChild(document.createTextNode(text.slice(last, match.index)));
+          const link = document.createElement('a');
+          link.textContent = match[0];
+          link.dataset.uri = match[1];
+          link.dataset.line = match[2] || '1';
+          link.dataset.column = match[3] || '1';
+          parent.appendChild(link);
+          last = match.index + match[0].length;
+        }
+        parent.appendChild(document.createTextNode(text.slice(last)));
+      };
+
+      const isVisible = (entry) => {
+        const levels = levelBoxes.filter((box) => box.checked).map((box) => box.dataset.level);
+        if (!levels.includes(entry.level)) {
+          return false;
+        }
+        const query = filterInput.value.trim().toLowerCase();
+        if (!query) {
+          return true;
+        }
+        return [entry.text, ...(entry.details || [])].some((line) => line.toLowerCase().includes(query));
+      };
+
+      const render = (entry) => {
+        const node = document.createElement('div');
+        node.className = 'entry ' + entry.level;
+        node.entry = entry;
+        if (entry.details) {
+          const details = document.createElement('details');
+          const summary = document.createElement('summary');
+          summary.textContent = entry.text;
+          const body = document.createElement('pre');
+          linkify(body, entry.details.join('\\n'));
+          details.append(summary, body);
+          node.appendChild(details);
+        } else {
+          linkify(node, entry.text);
+        }
+        node.classList.toggle('hidden', !isVisible(entry));
+        return node;
+      };
+
+      const upsert = (entries) => {
+        const atBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 20;
+        for (const entry of entries) {
+          const node = render(entry);
+          const existing = nodes.get(entry.id);
+          if (existing) {
+            const open = existing.querySelector('details')?.open;
+            if (open) {
+              node.querySelector('details').open = true;
+            }
+            existing.replaceWith(node);
+          } else {
+            container.appendChild(node);
+          }
+          nodes.set(entry.id, node);
+        }
+        while (container.childElementCount > MAX_ENTRIES) {
+          nodes.delete(container.firstElementChild.entry.id);
+          container.firstElementChild.remove();
+        }
+        if (atBottom) {
+          window.scrollTo(0, document.body.scrollHeight);
+        }
+      };
+
+      const clear = () => {
+        container.textContent = '';
+        nodes.clear();
+      };
+
+      const applyFilters = () => {
+        for (const node of nodes.values()) {
+          node.classList.toggle('hidden', !isVisible(node.entry));
+        }
+      };
+
+      window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (message.type === 'reset') {
+          clear();
+          upsert(message.entries);
+        } else if (message.type === 'upsert') {
+          upsert(message.entries);
+        } else if (message.type === 'clear') {
+          clear();
+        }
+      });
+      container.addEventListener('click', (event) => {
+        const link = event.target.closest('a[data-uri]');
+        if (link) {
+          event.preventDefault();
+          vscode.postMessage({ type: 'open', uri: link.dataset.uri, line: Number(link.dataset.line), column: Number(link.dataset.column) });
+        }
+      });
+      filterInput.addEventListener('input', applyFilters);
+      levelBoxes.forEach((box) => box.addEventListener('change', applyFilters));
+      document.getElementById('clear').addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+      vscode.postMessage({ type: 'ready' });
+    </script>
+  </body>
+</html>`;
+}
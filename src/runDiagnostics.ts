@@ -0,0 +1,123 @@
+import { ConsoleEntry } from "./runConsole";
+
+/** A problem reported by a run, before its location is resolved to a workspace file. */
+export type RunProblem = {
+  /** `file:` URI, `package:` URI, absolute path or path relative to the app. */
+  location: string;
+  line: number;
+  column: number;
+  message: string;
+  severity: "error" | "warning";
+  source: "dart" | "gradle" | "xcode" | "flutter";
+};
+
+// lib/main.dart:12:5: Error: Expected ';' after this.
+const DART_PROBLEM = /^(.+?\.dart):(\d+):(\d+): (Error|Warning): (.+)$/;
+// e: file:///app/android/app/src/main/kotlin/MainActivity.kt:10:5 Unresolved reference: foo
+const KOTLIN_PROBLEM = /^([ew]): (file:\/\/\S+?\.kts?|\/\S+?\.kts?):(\d+):(\d+) (.+)$/;
+// e: /app/android/app/src/main/kotlin/MainActivity.kt: (10, 5): Unresolved reference: foo
+const KOTLIN_LEGACY_PROBLEM = /^([ew]): (\S+?\.kts?): \((\d+), (\d+)\): (.+)$/;
+// /app/android/app/src/main/java/Foo.java:12: error: cannot find symbol
+const JAVA_PROBLEM = /^(\S+?\.java):(\d+): (error|warning): (.+)$/;
+// /app/ios/Runner/AppDelegate.swift:10:5: error: cannot find 'x' in scope
+const NATIVE_PROBLEM = /^(\S+?\.(?:swift|mm?|h|cpp|cc|c)):(\d+):(\d+): (error|warning): (.+)$/;
+const FRAME_LOCATION = /(file:\/\/\S+?\.dart|package:\S+?\.dart):(\d+):(\d+)/;
+const TOOL_PREFIX = /^(?:Error \((?:Xcode|Gradle)\):\s*|\[[^\]]+\]\s*)/;
+
+/** Extracts problems with a source location from a completed run console entry. */
+export function parseRunProblems(entry: ConsoleEntry): RunProblem[] {
+  if (entry.details) {
+    const problem = parseFrameworkException(entry.text, entry.details);
+    return problem ? [problem] : [];
+  }
+  if (entry.level === "extension") {
+    return [];
+  }
+  const problem = parseProblemLine(entry.text);
+  return problem ? [problem] : [];
+}
+
+/** Parses compile and native build errors, one per line (for example the message of a failed reload). */
+export function parseProblemLine(text: string): RunProblem | undefined {
+  const line = text.trim().replace(TOOL_PREFIX, "");
+
+  const dart = DART_PROBLEM.exec(line);
+  if (dart) {
+    return {
+      location: dart[1],
+      line: Number(dart[2]),
+      column: Number(dart[3]),
+      message: dart[5],
+      severity: dart[4] === "Error" ? "error" : "warning",
+      source: "dart"
+    };
+  }
+
+  const kotlin = KOTLIN_PROBLEM.exec(line) ?? KOTLIN_LEGACY_PROBLEM.exec(line);
+  if (kotlin) {
+    return {
+      location: kotlin[2],
+      line: Number(kotlin[3]),
+      column: Number(kotlin[4]),
+      message: kotlin[5],
+      severity: kotlin[1] === "e" ? "error" : "warning",
+      source: "gradle"
+    };
+  }
+
+  const java = JAVA_PROBLEM.exec(line);
+  if (java) {
+    return {
+      location: java[1],
+      line: Number(java[2]),
+      column: 1,
+      message: java[4],
+      severity: java[3] === "error" ? "error" : "warning",
+      source: "gradle"
+    };
+  }
+
+  const native = NATIVE_PROBLEM.exec(line);
+  if (native) {
+    return {
+      location: native[1],
+      line: Number(native[2]),
+      column: Number(native[3]),
+      message: native[5],
+      severity: native[4] === "error" ? "error" : "warning",
+      source: "xcode"
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Locates a framework exception at "The relevant error-causing widget was:" when Flutter prints it,
+ * otherwise at the first stack frame outside the Flutter SDK packages.
+ */
+function parseFrameworkException(summary: string, details: string[]): RunProblem | undefined {
+  const widgetIndex = details.findIndex((line) => /The relevant error-causing widget was/.test(line));
+  const widgetLocation =
+    widgetIndex >= 0
+      ? details
+          .slice(widgetIndex + 1, widgetIndex + 3)
+          .map((line) => FRAME_LOCATION.exec(line))
+          .find(Boolean)
+      : undefined;
+  const frameLocation = details
+    .filter((line) => /^#\d+\s/.test(line.trim()))
+    .map((line) => FRAME_LOCATION.exec(line))
+    .find((match) => match && !/^package:(flutter|flutter_test|flutter_web_plugins)\//.test(match[1]));
+  const location = widgetLocation ?? frameLocation;
+  if (!location) {
+    return undefined;
+  }
+  return {
+    location: location[1],
+    line: Number(location[2]),
+    column: Number(location[3]),
+    message: summary,
+    severity: "error",
+    source: "flutter"
+  };
+}
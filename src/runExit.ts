@@ -0,0 +1,58 @@
+import { AutoRelaunch } from "./profiles";
+
+/**
+ * Why a run ended: `stopped` by the user, `exited` cleanly on its own (for example the app window was closed),
+ * `crashed` with an error, `lostConnection` to the device, or `failedToStart` before the app came up.
+ */
+export type RunExitKind = "stopped" | "exited" | "crashed" | "lostConnection" | "failedToStart";
+
+/** Tool output that means the device or its VM service went away, not the app itself. */
+const LOST_CONNECTION_PATTERN = /Lost connection to device|Error connecting to the service protocol|device (?:was )?disconnected/i;
+
+const DEFAULT_RELAUNCH_DELAY_MS = 2000;
+const DEFAULT_MAX_RELAUNCH_DELAY_MS = 60000;
+
+export function isLostConnectionLine(line: string): boolean {
+  return LOST_CONNECTION_PATTERN.test(line);
+}
+
+export function classifyRunExit(exit: {
+  code: number | null;
+  stoppedByUser: boolean;
+  started: boolean;
+  lostConnection: boolean;
+  appError?: string;
+}): RunExitKind {
+  if (exit.stoppedByUser) {
+    return "stopped";
+  }
+  if (exit.lostConnection) {
+    return "lostConnection";
+  }
+  if (!exit.started) {
+    return exit.code === 0 ? "exited" : "failedToStart";
+  }
+  return exit.code !== 0 || exit.appError ? "crashed" : "exited";
+}
+
+export function describeRunExit(kind: RunExitKind, code: number | null): string {
+  switch (kind) {
+    case "stopped":
+      return "stopped";
+    case "exited":
+      return "exited";
+    case "lostConnection":
+      return "lost connection to the device";
+    case "failedToStart":
+      return `failed to start (exit code ${code ?? "unknown"})`;
+    case "crashed":
+      return `crashed (exit code ${code ?? "unknown"})`;
+  }
+}
+
+/** Doubles the delay per attempt (`attempt` starts at 1), capped at the policy's maximum. */
+export function getRelaunchDelayMs(policy: AutoRelaunch, attempt: number): number {
+  const initial = policy.initialDelayMs ?? DEFAULT_RELAUNCH_DELAY_MS;
+  const max = policy.maxDelayMs ?? DEFAULT_MAX_RELAUNCH_DELAY_MS;
+  return Math.min(initial * 2 ** Math.max(attempt - 1, 0), Math.max(initial, max));
+}
@@ -0,0 +1,181 @@
+import * as vscode from "vscode";
+import { createWriteStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { RunProfile } from "./profiles";
+import { describeRunExit, RunExitKind } from "./runExit";
+
+/** One run or attach session as kept in the workspace state. */
+export type RunRecord = {
+  id: string;
+  /** Set for `flutter attach` sessions. */
+  attach?: { debugUrl?: string; appId?: string };
+  /**
+   * The profile the session ran with, used by "Run again". Variables are expanded except `${env:NAME}`,
+   * so secrets kept in the environment are not saved in the workspace state.
+   */
+  profile: RunProfile;
+  /** Arguments passed to `flutter`, including `run --machine` or `attach --machine`, built from `profile`. */
+  args: string[];
+  deviceId: string;
+  deviceName: string;
+  folder: string;
+  startedAt: number;
+  stoppedAt?: number;
+  exitCode?: number | null;
+  exitKind?: RunExitKind;
+  durationMs?: number;
+  /** Full output of the session; only the most recent logs are kept on disk. */
+  logFile?: string;
+};
+
+export type RunLog = { write(text: string): void; close(): Promise<void> };
+
+/** Writes session output to `<folder>/<id>.log`; write errors only stop the log, never the run. */
+export async function createRunLog(
+  folder: string,
+  id: string
+): Promise<{ filePath: string; log: RunLog } | undefined> {
+  try {
+    await fs.mkdir(folder, { recursive: true });
+  } catch {
+    return undefined;
+  }
+  const filePath = path.join(folder, `${id}.log`);
+  const stream = createWriteStream(filePath, { encoding: "utf8" });
+  let failed = false;
+  stream.on("error", () => {
+    failed = true;
+  });
+  return {
+    filePath,
+    log: {
+      write(text: string): void {
+        if (!failed) {
+          stream.write(text);
+        }
+      },
+      close(): Promise<void> {
+        return new Promise((resolve) => stream.end(resolve));
+      }
+    }
+  };
+}
+
+/** Drops the log files of all but the `keep` most recent records (records are newest first). */
+export async function pruneRunLogs(records: RunRecord[], keep: number): Promise<RunRecord[]> {
+  let withLogs = 0;
+  const pruned: RunRecord[] = [];
+  for (const record of records) {
+    if (!record.logFile) {
+      pruned.push(record);
+      continue;
+    }
+    withLogs++;
+    if (withLogs <= keep) {
+      pruned.push(record);
+      continue;
+    }
+    await fs.rm(record.logFile, { force: true }).catch(() => undefined);
+    pruned.push({ ...record, logFile: undefined });
+  }
+  return pruned;
+}
+
+const ENV_VARIABLE_PATTERN = /\$\{\s*env:\s*([^}]*?)\s*\}/;
+
+/**
+ * A shell command that reproduces the run from a terminal, without the `--machine` protocol flag.
+ * `${env:NAME}` becomes `"$NAME"`, so the copied command reads secrets from the shell instead of containing them.
+ */
+export function formatRunCommand(record: RunRecord): string {
+  const quoteText = (value: string) =>
+    /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`;
+  const quote = (value: string) =>
+    value
+      .split(ENV_VARIABLE_PATTERN)
+      // split() puts the captured variable names at the odd indexes.
+      .map((part, index) => (index % 2 ? `"$${part}"` : part && quoteText(part)))
+      .join("") || "''";
+  const env = Object.entries(record.profile.env ?? {}).map(([key, value]) => `${key}=${quote(value)} `);
+  const args = record.args.filter((arg) => arg !== "--machine");
+  return `cd ${quote(record.folder)} && ${env.join("")}flutter ${args.map(quote).join(" ")}`;
+}
+
+export type RunHistoryTree = vscode.TreeDataProvider<RunRecord> & { refresh(): void };
+
+/** Tree data for the Recent Runs view, newest first. */
+export function createRunHistoryTree(
+  getRecords: () => RunRecord[],
+  isActive: (record: RunRecord) => boolean
+): RunHistoryTree {
+  const changed = new vscode.EventEmitter<RunRecord | undefined>();
+  return {
+    onDidChangeTreeData: changed.event,
+    refresh(): void {
+      changed.fire(undefined);
+    },
+    getChildren(element?: RunRecord): RunRecord[] {
+      return element ? [] : getRecords();
+    },
+    getTreeItem(record: RunRecord): vscode.TreeItem {
+      const active = isActive(record);
+      const item = new vscode.TreeItem(
+        `${record.profile.name} on ${record.deviceName}`,
+        vscode.TreeItemCollapsibleState.None
+      );
+      const parts = [new Date(record.startedAt).toLocaleString()];
+      if (active) {
+        parts.push("running");
+      } else if (record.durationMs !== undefined) {
+        parts.push(formatDuration(record.durationMs));
+      }
+      if (!active && (record.exitKind === "crashed" || record.exitKind === "lostConnection")) {
+        parts.push(record.exitKind === "crashed" ? "crashed" : "lost connection");
+      } else if (!active && record.exitCode !== undefined) {
+        parts.push(`exit ${record.exitCode ?? "signal"}`);
+      }
+      item.description = parts.join(" · ");
+      item.tooltip = [
+        `${record.attach ? "Attach" : "Run"}: ${record.profile.name}`,
+        `Device: ${record.deviceName} (${record.deviceId})`,
+        `Folder: ${record.folder}`,
+        `Started: ${new Date(record.startedAt).toLocaleString()}`,
+        record.stoppedAt ? `Stopped: ${new Date(record.stoppedAt).toLocaleString()}` : undefined,
+        record.exitCode !== undefined ? `Exit code: ${record.exitCode ?? "terminated by signal"}` : undefined,
+        record.exitKind && record.exitKind !== "stopped" ? `Result: ${describeRunExit(record.exitKind, record.exitCode ?? null)}` : undefined
+      ]
+        .filter(Boolean)
+        .join("\n");
+      item.iconPath = new vscode.ThemeIcon(active ? "debug-start" : getExitIcon(record));
+      item.contextValue = record.logFile ? "flutterRunner.runRecord.withLog" : "flutterRunner.runRecord";
+      if (record.logFile) {
+        item.command = { title: "Open Log", command: "flutterRunner.openRunLog", arguments: [record] };
+      }
+      return item;
+    }
+  };
+}
+
+/** `null` means the process was stopped by a signal, which is how Stop ends a run. */
+function getExitIcon(record: RunRecord): string {
+  if (record.exitKind === "lostConnection") {
+    return "debug-disconnect";
+  }
+  if (record.exitKind === "crashed" || record.exitKind === "failedToStart") {
+    return "error";
+  }
+  if (record.exitCode === undefined) {
+    return "circle-outline";
+  }
+  return record.exitCode === 0 || record.exitCode === null ? "pass" : "error";
+}
+
+function formatDuration(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import { FlutterDevice } from "./flutterDaemon";
+import { RunProfile } from "./profiles";
+
+/** A configured profile in the Profiles view. */
+export type ProfileNode = { kind: "profile"; profile: RunProfile; active: boolean; description: string; source: string };
+
+/** A device from device discovery in the Devices view. */
+export type DeviceNode = { kind: "device"; device: FlutterDevice; selected: boolean; running: boolean };
+
+/** A live run or attach session in the Sessions view. */
+export type SessionNode = {
+  kind: "session";
+  sessionId: string;
+  mode: "run" | "attach";
+  deviceName: string;
+  profileName: string;
+  folder: string;
+  started: boolean;
+  stopping: boolean;
+  hasDevTools: boolean;
+};
+
+const DEVICE_CATEGORY_ICONS: Record<string, string> = { web: "browser", desktop: "vm" };
+
+export type RunnerTree<T> = vscode.TreeDataProvider<T> & { refresh(): void };
+
+export function createProfilesTree(getNodes: () => ProfileNode[]): RunnerTree<ProfileNode> {
+  return createListTree(getNodes, (node) => {
+    const item = new vscode.TreeItem(node.profile.name, vscode.TreeItemCollapsibleState.None);
+    item.description = `${node.active ? "active · " : ""}${node.description}`;
+    item.tooltip = `${node.profile.name}${node.active ? " (active)" : ""}\n${node.description}${
+      node.source ? `\nStored in ${node.source}` : ""
+    }`;
+    item.iconPath = new vscode.ThemeIcon(node.active ? "pass-filled" : "circle-large-outline");
+    item.contextValue = node.active ? "flutterRunner.profile.active" : "flutterRunner.profile";
+    item.command = { title: "Set as Active Profile", command: "flutterRunner.setActiveProfile", arguments: [node] };
+    return item;
+  });
+}
+
+export function createDevicesTree(getNodes: () => DeviceNode[]): RunnerTree<DeviceNode> {
+  return createListTree(getNodes, (node) => {
+    const { device } = node;
+    const item = new vscode.TreeItem(device.name, vscode.TreeItemCollapsibleState.None);
+    const parts = [device.platform ?? device.id];
+    if (device.emulator) {
+      parts.push("emulator");
+    }
+    if (node.running) {
+      parts.push("running");
+    }
+    item.description = parts.join(" · ");
+    item.tooltip = `${device.name} (${device.id})${device.sdk ? `\n${device.sdk}` : ""}${
+      device.isSupported === false ? "\nNot supported by this project" : ""
+    }`;
+    item.iconPath = new vscode.ThemeIcon(
+      node.selected ? "pass-filled" : DEVICE_CATEGORY_ICONS[device.category ?? ""] ?? "device-mobile"
+    );
+    item.contextValue = node.selected ? "flutterRunner.device.selected" : "flutterRunner.device";
+    item.command = { title: "Select Device", command: "flutterRunner.selectDevice", arguments: [device.id] };
+    return item;
+  });
+}
+
+export function createSessionsTree(getNodes: () => SessionNode[]): RunnerTree<SessionNode> {
+  return createListTree(getNodes, (node) => {
+    const item = new vscode.TreeItem(node.deviceName, vscode.TreeItemCollapsibleState.None);
+    const state = node.stopping ? "stopping" : node.started ? "started" : "starting";
+    item.description = `${node.mode === "attach" ? "attached · " : ""}${node.profileName}${
+      state === "started" ? "" : ` · ${state}`
+    }`;
+    item.tooltip = `${node.mode === "attach" ? "Attached" : "Running"} on ${node.deviceName}\nProfile: ${
+      node.profileName
+    }\nFolder: ${node.folder}`;
+    item.iconPath = new vscode.ThemeIcon(state === "started" ? "debug-start" : "sync~spin");
+    item.contextValue = [
+      "flutterRunner.session",
+      state,
+      node.hasDevTools ? "devTools" : undefined
+    ]
+      .filter(Boolean)
+      .join(".");
+    item.command = { title: "Show Run Console", command: "flutterRunner.showRunConsole", arguments: [node.sessionId] };
+    return item;
+  });
+}
+
+/** A flat tree over `getNodes`, re-read on every refresh. */
+function createListTree<T>(getNodes: () => T[], toTreeItem: (node: T) => vscode.TreeItem): RunnerTree<T> {
+  const changed = new vscode.EventEmitter<T | undefined>();
+  return {
+    onDidChangeTreeData: changed.event,
+    refresh(): void {
+      changed.fire(undefined);
+    },
+    getChildren(element?: T): T[] {
+      return element ? [] : getNodes();
+    },
+    getTreeItem: toTreeItem
+  };
+}
@@ -0,0 +1,69 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+export const DEFAULT_RELOAD_INCLUDE = ["**/*.dart"];
+export const DEFAULT_RELOAD_EXCLUDE = ["**/*.g.dart", "**/*.freezed.dart", "**/.dart_tool/**", "**/build/**"];
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/** Converts a glob (`**`, `*`, `?`, `{a,b}`) to a regular expression over `/`-separated paths. */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  let braceDepth = 0;
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === "*" && glob[index + 1] === "*") {
+      // `**/` matches zero or more folders; a trailing `**` matches everything below.
+      const slash = glob[index + 2] === "/";
+      pattern += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      braceDepth++;
+      pattern += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      pattern += ")";
+    } else if (char === "," && braceDepth > 0) {
+      pattern += "|";
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/** True when the workspace-relative path matches an include glob and no exclude glob. */
+export function matchesReloadFilters(relativePath: string, include: string[], exclude: string[]): boolean {
+  const normalized = relativePath.split(path.sep).join("/");
+  const matches = (glob: string) => globToRegExp(glob).test(normalized);
+  return include.some(matches) && !exclude.some(matches);
+}
+
+export function isInsideFolder(filePath: string, folder: string): boolean {
+  const relative = path.relative(folder, filePath);
+  return relative.length > 0 && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Root folders of the app's path dependencies (direct and transitive), read from
+ * `.dart_tool/package_config.json`, where pub writes them as relative URIs.
+ */
+export async function getPathDependencyFolders(appFolder: string): Promise<string[]> {
+  const configPath = path.join(appFolder, ".dart_tool", "package_config.json");
+  try {
+    const config = JSON.parse(await fs.readFile(configPath, "utf8")) as {
+      packages?: { rootUri?: string }[];
+    };
+    return (config.packages ?? [])
+      .map((entry) => entry.rootUri)
+      .filter((rootUri): rootUri is string => typeof rootUri === "string" && !URI_SCHEME.test(rootUri))
+      .map((rootUri) => path.resolve(fileURLToPath(new URL(rootUri, pathToFileURL(configPath)))))
+      .filter((folder) => folder !== path.resolve(appFolder));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,435 @@
+import * as vscode from "vscode";
+import { spawn } from "child_process";
+import * as path from "path";
+
+/** Options applied to `integration_test/` runs, taken from the active profile and selected device. */
+export type IntegrationTestOptions = {
+  deviceId?: string;
+  args: string[];
+  env?: Record<string, string>;
+};
+
+export type FlutterTestController = {
+  /** Runs the tests of a test file, or the tests named after a source file. Returns false when none exist. */
+  runRelatedTests(uri: vscode.Uri): Promise<boolean>;
+  refresh(): Promise<void>;
+  dispose(): void;
+};
+
+const TEST_FOLDERS = ["test", "integration_test"];
+
+/** Events of the `flutter test --machine` JSON reporter that are used here. */
+type TestReporterEvent =
+  | { type: "suite"; suite: { id: number; path: string | null } }
+  | {
+      type: "testStart";
+      test: {
+        id: number;
+        name: string;
+        suiteID: number;
+        line: number | null;
+        column: number | null;
+        url: string | null;
+        root_line?: number | null;
+        root_column?: number | null;
+        root_url?: string | null;
+      };
+      time: number;
+    }
+  | { type: "print"; testID: number; message: string }
+  | { type: "error"; testID: number; error: string; stackTrace: string; isFailure: boolean }
+  | {
+      type: "testDone";
+      testID: number;
+      result: "success" | "failure" | "error";
+      hidden: boolean;
+      skipped: boolean;
+      time: number;
+    }
+  | { type: "done"; success: boolean | null };
+
+/**
+ * Registers `*_test.dart` files under `test/` and `integration_test/` of the project with the Testing API
+ * and runs them with `flutter test --machine`. Individual tests appear under their file once they have run.
+ */
+export function createFlutterTestController(options: {
+  getProjectFolder: () => Promise<string | undefined>;
+  getIntegrationTestOptions: () => Promise<IntegrationTestOptions>;
+  /** Formats the command line for logs (hides dart-define values). */
+  formatArgs: (args: string[]) => string;
+  log: (line: string) => void;
+}): FlutterTestController {
+  const controller = vscode.tests.createTestController("flutterRunner.tests", "Flutter Tests");
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*_test.dart");
+  let projectFolder: string | undefined;
+
+  const discover = async () => {
+    projectFolder = await options.getProjectFolder();
+    if (!projectFolder) {
+      controller.items.replace([]);
+      return;
+    }
+    const files = (
+      await Promise.all(
+        TEST_FOLDERS.map((folder) =>
+          vscode.workspace.findFiles(
+            new vscode.RelativePattern(path.join(projectFolder as string, folder), "**/*_test.dart")
+          )
+        )
+      )
+    ).flat();
+    const previous = new Map<string, vscode.TestItem>();
+    controller.items.forEach((item) => previous.set(item.id, item));
+    controller.items.replace(
+      files
+        .sort((left, right) => left.fsPath.localeCompare(right.fsPath))
+        .map((uri) => previous.get(uri.toString()) ?? createFileItem(uri))
+    );
+  };
+
+  const createFileItem = (uri: vscode.Uri) => {
+    const label = projectFolder ? path.relative(projectFolder, uri.fsPath).split(path.sep).join("/") : uri.fsPath;
+    return controller.createTestItem(uri.toString(), label, uri);
+  };
+
+  const isInProject = (uri: vscode.Uri) =>
+    Boolean(projectFolder) &&
+    TEST_FOLDERS.some((folder) => uri.fsPath.startsWith(`${path.join(projectFolder as string, folder)}${path.sep}`));
+
+  const runHandler = async (request: vscode.TestRunRequest, token: vscode.CancellationToken) => {
+    const run = controller.createTestRun(request);
+    const excluded = new Set((request.exclude ?? []).map((item) => item.id));
+    const requested: vscode.TestItem[] = [];
+    if (request.include) {
+      requested.push(...request.include);
+    } else {
+      controller.items.forEach((item) => requested.push(item));
+    }
+
+    // One `flutter test` per file group: whole files run together, single tests run with a --name filter.
+    const wholeFiles: vscode.TestItem[] = [];
+    const namedTests = new Map<vscode.TestItem, vscode.TestItem[]>();
+    for (const item of requested.filter((candidate) => !excluded.has(candidate.id))) {
+      if (!item.parent) {
+        wholeFiles.push(item);
+      } else if (!wholeFiles.includes(item.parent)) {
+        namedTests.set(item.parent, [...(namedTests.get(item.parent) ?? []), item]);
+      }
+    }
+
+    const batches: { files: vscode.TestItem[]; names?: string[] }[] = [];
+    const isIntegration = (item: vscode.TestItem) =>
+      Boolean(item.uri && projectFolder && item.uri.fsPath.startsWith(path.join(projectFolder, "integration_test")));
+    const unitFiles = wholeFiles.filter((item) => !isIntegration(item));
+    const integrationFiles = wholeFiles.filter(isIntegration);
+    if (unitFiles.length) {
+      batches.push({ files: unitFiles });
+    }
+    if (integrationFiles.length) {
+      batches.push({ files: integrationFiles });
+    }
+    for (const [file, tests] of namedTests) {
+      batches.push({ files: [file], names: tests.map((test) => test.label) });
+    }
+
+    for (const batch of batches) {
+      for (const file of batch.files) {
+        run.enqueued(file);
+        file.children.forEach((child) => {
+          if (!batch.names || batch.names.includes(child.label)) {
+            run.enqueued(child);
+          }
+        });
+      }
+    }
+
+    try {
+      for (const batch of batches) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+        await runBatch(run, batch.files, batch.names, token);
+      }
+    } finally {
+      run.end();
+    }
+  };
+
+  const runBatch = async (
+    run: vscode.TestRun,
+    files: vscode.TestItem[],
+    names: string[] | undefined,
+    token: vscode.CancellationToken
+  ) => {
+    const folder = projectFolder;
+    if (!folder) {
+      return;
+    }
+    const args = ["test", "--machine"];
+    let env: Record<string, string> | undefined;
+    if (files.some((file) => file.uri?.fsPath.startsWith(path.join(folder, "integration_test")))) {
+      const integration = await options.getIntegrationTestOptions();
+      if (integration.deviceId) {
+        args.push("-d", integration.deviceId);
+      }
+      args.push(...integration.args);
+      env = integration.env;
+    }
+    if (names?.length) {
+      args.push("--name", `^(?:${names.map(escapeRegExp).join("|")})$`);
+    }
+    args.push(...files.map((file) => path.relative(folder, file.uri?.fsPath ?? "")));
+
+    const command = `flutter ${options.formatArgs(args)}`;
+    run.appendOutput(`${command}\r\n`);
+    options.log(`[tests] ${command}`);
+    for (const file of files) {
+      run.started(file);
+    }
+
+    const suites = new Map<number, vscode.TestItem>();
+    // Hidden "loading <file>" tests have no item; their errors belong to the file.
+    const tests = new Map<
+      number,
+      { file: vscode.TestItem; item?: vscode.TestItem; startedAt: number; messages: vscode.TestMessage[] }
+    >();
+    const fileErrors = new Map<vscode.TestItem, string[]>();
+    const fileResults = new Map<vscode.TestItem, boolean>();
+
+    const findFile = (suitePath: string | null) =>
+      files.find((file) => suitePath && file.uri && path.resolve(folder, suitePath) === file.uri.fsPath);
+
+    const handleEvent = (event: TestReporterEvent) => {
+      switch (event.type) {
+        case "suite": {
+          const file = findFile(event.suite.path);
+          if (file) {
+            suites.set(event.suite.id, file);
+          }
+          return;
+        }
+        case "testStart": {
+          const file = suites.get(event.test.suiteID);
+          if (!file) {
+            return;
+          }
+          const isLoading = !event.test.url && event.test.name.startsWith("loading ");
+          const item = isLoading ? undefined : getTestItem(file, event.test);
+          tests.set(event.test.id, { file, item, startedAt: event.time, messages: [] });
+          if (item) {
+            run.started(item);
+          }
+          return;
+        }
+        case "print": {
+          const test = tests.get(event.testID);
+          run.appendOutput(`${event.message.replace(/\r?\n/g, "\r\n")}\r\n`, undefined, test?.item ?? test?.file);
+          return;
+        }
+        case "error": {
+          const text = `${event.error}\n${event.stackTrace}`;
+          run.appendOutput(`${text.replace(/\r?\n/g, "\r\n")}\r\n`);
+          const test = tests.get(event.testID);
+          if (!test) {
+            return;
+          }
+          const message = new vscode.TestMessage(text);
+          if (test.item?.uri && test.item.range) {
+            message.location = new vscode.Location(test.item.uri, test.item.range);
+          }
+          test.messages.push(message);
+          return;
+        }
+        case "testDone": {
+          const test = tests.get(event.testID);
+          if (!test) {
+            return;
+          }
+          const file = test.file;
+          if (!test.item || event.hidden) {
+            // Hidden "loading" tests fail when the file itself does not compile.
+            if (event.result !== "success") {
+              fileErrors.set(file, [
+                ...(fileErrors.get(file) ?? []),
+                ...test.messages.map((message) => message.message.toString())
+              ]);
+            }
+            return;
+          }
+          const duration = Math.max(event.time - test.startedAt, 0);
+          if (event.skipped) {
+            run.skipped(test.item);
+          } else if (event.result === "success") {
+            run.passed(test.item, duration);
+          } else {
+            fileResults.set(file, false);
+            const messages = test.messages.length ? test.messages : [new vscode.TestMessage(`Test ${event.result}.`)];
+            if (event.result === "error") {
+              run.errored(test.item, messages, duration);
+            } else {
+              run.failed(test.item, messages, duration);
+            }
+          }
+          if (!fileResults.has(file)) {
+            fileResults.set(file, true);
+          }
+          return;
+        }
+        default:
+          return;
+      }
+    };
+
+    const exitCode = await new Promise<number | null>((resolve) => {
+      const child = spawn("flutter", args, { cwd: folder, env: { ...process.env, ...(env ?? {}) }, shell: false });
+      const cancellation = token.onCancellationRequested(() => child.kill("SIGTERM"));
+      let buffer = "";
+      const handleLine = (line: string) => {
+        const event = parseReporterLine(line);
+        if (event) {
+          handleEvent(event);
+        } else if (line.trim()) {
+          run.appendOutput(`${line}\r\n`);
+        }
+      };
+      child.stdout.setEncoding("utf8");
+      child.stderr.setEncoding("utf8");
+      child.stdout.on("data", (text: string) => {
+        buffer += text;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+        lines.forEach(handleLine);
+      });
+      child.stderr.on("data", (text: string) => {
+        run.appendOutput(text.replace(/\r?\n/g, "\r\n"));
+      });
+      child.on("error", (error) => {
+        run.appendOutput(`${error.message}\r\n`);
+        cancellation.dispose();
+        resolve(null);
+      });
+      child.on("close", (code) => {
+        if (buffer) {
+          handleLine(buffer);
+        }
+        cancellation.dispose();
+        resolve(code);
+      });
+    });
+
+    for (const file of files) {
+      const errors = fileErrors.get(file);
+      if (errors?.length) {
+        run.errored(file, new vscode.TestMessage(errors.join("\n\n")));
+      } else if (token.isCancellationRequested) {
+        run.skipped(file);
+      } else if (fileResults.get(file) === false) {
+        run.failed(file, []);
+      } else if (fileResults.get(file) || exitCode === 0) {
+        run.passed(file);
+      } else {
+        run.errored(file, new vscode.TestMessage(`flutter test exited with code ${exitCode ?? "unknown"}.`));
+      }
+    }
+  };
+
+  const getTestItem = (file: vscode.TestItem, test: Extract<TestReporterEvent, { type: "testStart" }>["test"]) => {
+    const id = `${file.id}#${test.name}`;
+    let item = file.children.get(id);
+    if (!item) {
+      item = controller.createTestItem(id, test.name, file.uri);
+      file.children.add(item);
+    }
+    // `root_*` points into the test file when the test is declared through a helper in another file.
+    const line = test.root_url === file.uri?.toString() ? test.root_line : test.url === file.uri?.toString() ? test.line : null;
+    if (line) {
+      const position = new vscode.Position(line - 1, Math.max((test.root_column ?? test.column ?? 1) - 1, 0));
+      item.range = new vscode.Range(position, position);
+    }
+    return item;
+  };
+
+  const runProfile = controller.createRunProfile("Run", vscode.TestRunProfileKind.Run, runHandler, true);
+  controller.resolveHandler = async (item) => {
+    if (!item) {
+      await discover();
+    }
+  };
+  controller.refreshHandler = () => discover();
+
+  const onTestFileChanged = (uri: vscode.Uri) => {
+    if (isInProject(uri)) {
+      void discover();
+    }
+  };
+  const disposables = [watcher, watcher.onDidCreate(onTestFileChanged), watcher.onDidDelete(onTestFileChanged)];
+
+  return {
+    async runRelatedTests(uri: vscode.Uri): Promise<boolean> {
+      await discover();
+      const files: vscode.TestItem[] = [];
+      controller.items.forEach((item) => files.push(item));
+      const related = findRelatedTestFiles(
+        uri,
+        projectFolder,
+        files.map((item) => item.uri?.fsPath ?? "")
+      );
+      const items = files.filter((item) => item.uri && related.includes(item.uri.fsPath));
+      if (!items.length) {
+        return false;
+      }
+      const cancellation = new vscode.CancellationTokenSource();
+      try {
+        await runHandler(new vscode.TestRunRequest(items, undefined, runProfile), cancellation.token);
+      } finally {
+        cancellation.dispose();
+      }
+      return true;
+    },
+    refresh: discover,
+    dispose(): void {
+      disposables.forEach((disposable) => disposable.dispose());
+      controller.dispose();
+    }
+  };
+}
+
+/**
+ * A test file maps to itself; `lib/src/foo.dart` maps to the mirrored `test/src/foo_test.dart`
+ * (or `integration_test/...`), and otherwise to every `foo_test.dart` in the test folders.
+ */
+function findRelatedTestFiles(uri: vscode.Uri, projectFolder: string | undefined, testFiles: string[]): string[] {
+  if (uri.fsPath.endsWith("_test.dart")) {
+    return [uri.fsPath];
+  }
+  if (!projectFolder || !uri.fsPath.endsWith(".dart")) {
+    return [];
+  }
+  const testName = `${path.basename(uri.fsPath, ".dart")}_test.dart`;
+  const relative = path.relative(path.join(projectFolder, "lib"), uri.fsPath);
+  if (!relative.startsWith("..")) {
+    const mirrored = TEST_FOLDERS.map((folder) => path.join(projectFolder, folder, path.dirname(relative), testName));
+    const existing = testFiles.filter((file) => mirrored.includes(file));
+    if (existing.length) {
+      return existing;
+    }
+  }
+  return testFiles.filter((file) => path.basename(file) === testName);
+}
+
+function parseReporterLine(line: string): TestReporterEvent | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(trimmed) as { type?: unknown };
+    return typeof parsed.type === "string" ? (parsed as TestReporterEvent) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,129 @@
+import WebSocket from "ws";
+
+export type VmService = {
+  sendRequest<T = unknown>(method: string, params?: Record<string, unknown>): Promise<T>;
+  /** Calls a service extension (`ext.flutter.*`) on the isolate that registered it. */
+  callServiceExtension<T = Record<string, unknown>>(method: string, params?: Record<string, string>): Promise<T>;
+  readonly isOpen: boolean;
+  dispose(): void;
+};
+
+type IsolateRef = { id: string; name?: string; isSystemIsolate?: boolean };
+
+/** A Flutter service extension toggled with `enabled`, or set with its own parameter. */
+export type FlutterServiceToggle = {
+  label: string;
+  method: string;
+  param: string;
+  on: string;
+  off: string;
+};
+
+export const FLUTTER_SERVICE_TOGGLES = {
+  debugPaint: { label: "Debug Paint", method: "ext.flutter.debugPaint", param: "enabled", on: "true", off: "false" },
+  performanceOverlay: {
+    label: "Performance Overlay",
+    method: "ext.flutter.showPerformanceOverlay",
+    param: "enabled",
+    on: "true",
+    off: "false"
+  },
+  slowAnimations: {
+    label: "Slow Animations",
+    method: "ext.flutter.timeDilation",
+    param: "timeDilation",
+    on: "5.0",
+    off: "1.0"
+  }
+} satisfies Record<string, FlutterServiceToggle>;
+
+export const PLATFORM_OVERRIDES = ["default", "android", "iOS", "fuchsia", "linux", "macOS", "windows"];
+export const BRIGHTNESS_OVERRIDES = ["default", "Brightness.light", "Brightness.dark"];
+
+/**
+ * Speaks the VM service JSON-RPC 2.0 protocol over the WebSocket announced by `app.debugPort`.
+ * The Flutter isolate is looked up per call because a hot restart replaces it.
+ */
+export function connectVmService(wsUri: string, handlers: { onClose: () => void }): Promise<VmService> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(wsUri);
+    const pending = new Map<string, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+    let nextRequestId = 1;
+    let isOpen = false;
+
+    socket.on("message", (data) => {
+      let message: { id?: string; result?: unknown; error?: { code?: number; message?: string; data?: unknown } };
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      const request = message.id !== undefined ? pending.get(String(message.id)) : undefined;
+      if (!request) {
+        return;
+      }
+      pending.delete(String(message.id));
+      if (message.error) {
+        const details = (message.error.data as { details?: string } | undefined)?.details;
+        request.reject(new Error(details || message.error.message || `VM service error ${message.error.code}`));
+      } else {
+        request.resolve(message.result);
+      }
+    });
+    socket.on("close", () => {
+      isOpen = false;
+      for (const request of pending.values()) {
+        request.reject(new Error("VM service connection closed."));
+      }
+      pending.clear();
+      handlers.onClose();
+    });
+    socket.on("error", (error) => {
+      if (!isOpen) {
+        reject(error);
+      }
+    });
+
+    const sendRequest = <T>(method: string, params?: Record<string, unknown>): Promise<T> => {
+      if (!isOpen) {
+        return Promise.reject(new Error("VM service is not connected."));
+      }
+      const id = String(nextRequestId++);
+      return new Promise<T>((resolveRequest, rejectRequest) => {
+        pending.set(id, { resolve: (value) => resolveRequest(value as T), reject: rejectRequest });
+        socket.send(JSON.stringify({ jsonrpc: "2.0", id, method, params: params ?? {} }));
+      });
+    };
+
+    const findIsolate = async (extension: string): Promise<string> => {
+      const vm = await sendRequest<{ isolates?: IsolateRef[] }>("getVM");
+      for (const ref of vm.isolates ?? []) {
+        if (ref.isSystemIsolate) {
+          continue;
+        }
+        const isolate = await sendRequest<{ extensionRPCs?: string[] }>("getIsolate", { isolateId: ref.id });
+        if (isolate.extensionRPCs?.includes(extension)) {
+          return ref.id;
+        }
+      }
+      throw new Error(`${extension} is not available. Service extensions need a debug or profile build.`);
+    };
+
+    socket.on("open", () => {
+      isOpen = true;
+      resolve({
+        sendRequest,
+        async callServiceExtension<T>(method: string, params?: Record<string, string>): Promise<T> {
+          const isolateId = await findIsolate(method);
+          return sendRequest<T>(method, { isolateId, ...(params ?? {}) });
+        },
+        get isOpen() {
+          return isOpen;
+        },
+        dispose() {
+          socket.close();
+        }
+      });
+    });
+  });
+}
@@ -0,0 +1,228 @@
+import * as vscode from "vscode";
+import * as net from "net";
+
+export type ViewportPreset = { label: string; width: number; height: number; devicePixelRatio: number };
+
+/** `Responsive` (width 0) fills the panel; the others are common logical sizes. */
+export const VIEWPORT_PRESETS: ViewportPreset[] = [
+  { label: "Responsive", width: 0, height: 0, devicePixelRatio: 1 },
+  { label: "iPhone SE", width: 375, height: 667, devicePixelRatio: 2 },
+  { label: "iPhone 15", width: 393, height: 852, devicePixelRatio: 3 },
+  { label: "Pixel 8", width: 412, height: 915, devicePixelRatio: 2.625 },
+  { label: "iPad Air", width: 820, height: 1180, devicePixelRatio: 2 },
+  { label: "Laptop", width: 1280, height: 800, devicePixelRatio: 1 },
+  { label: "Desktop", width: 1920, height: 1080, devicePixelRatio: 1 }
+];
+
+export type WebPreviewStatus = "starting" | "running" | "reloading" | "stopped";
+
+/**
+ * The preview of a `web-server` run: one webview that frames the app at a viewport preset,
+ * shows the run status and reloads the frame on request. The preset, pixel ratio and rotation
+ * are kept in the workspace state.
+ */
+export type WebPreviewPanel = {
+  show(url: string): void;
+  setStatus(status: WebPreviewStatus, detail?: string): void;
+  reload(): void;
+  dispose(): void;
+};
+
+type ViewportState = { preset: string; devicePixelRatio: number; rotated: boolean };
+
+const VIEWPORT_STATE_KEY = "flutterRunner.webPreviewViewport";
+
+export function createWebPreviewPanel(state: vscode.Memento): WebPreviewPanel {
+  let panel: vscode.WebviewPanel | undefined;
+  let appUrl: string | undefined;
+  let status: { status: WebPreviewStatus; detail?: string } = { status: "starting" };
+
+  const post = (message: unknown) => {
+    void panel?.webview.postMessage(message);
+  };
+  const postState = () => {
+    const viewport = state.get<ViewportState>(VIEWPORT_STATE_KEY) ?? {
+      preset: "Responsive",
+      devicePixelRatio: 1,
+      rotated: false
+    };
+    post({ type: "state", viewport, status });
+  };
+
+  const render = async () => {
+    if (!panel || !appUrl) {
+      return;
+    }
+    // Remote workspaces need the forwarded address of the web server.
+    const external = (await vscode.env.asExternalUri(vscode.Uri.parse(appUrl))).toString(true);
+    if (panel) {
+      panel.webview.html = getWebPreviewHtml(panel.webview, external);
+    }
+  };
+
+  return {
+    show(url: string): void {
+      const changed = url !== appUrl;
+      appUrl = url;
+      if (panel) {
+        if (changed) {
+          void render();
+        }
+        panel.reveal(undefined, true);
+        return;
+      }
+      panel = vscode.window.createWebviewPanel(
+        "flutterRunnerWebPreview",
+        "Flutter Web Preview",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: false },
+        { enableScripts: true, retainContextWhenHidden: true }
+      );
+      panel.webview.onDidReceiveMessage((message: unknown) => {
+        const payload = message as { type?: string; viewport?: ViewportState } | undefined;
+        if (payload?.type === "ready") {
+          postState();
+        } else if (payload?.type === "viewport" && payload.viewport) {
+          void state.update(VIEWPORT_STATE_KEY, payload.viewport);
+        } else if (payload?.type === "openExternal" && appUrl) {
+          void vscode.env.openExternal(vscode.Uri.parse(appUrl));
+        }
+      });
+      panel.onDidDispose(() => {
+        panel = undefined;
+      });
+      void render();
+    },
+    setStatus(next: WebPreviewStatus, detail?: string): void {
+      status = { status: next, detail };
+      postState();
+    },
+    reload(): void {
+      post({ type: "reload" });
+    },
+    dispose(): void {
+      panel?.dispose();
+    }
+  };
+}
+
+/** A free local port, used to pin `--web-port` for profiles that do not set one. */
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      server.close(() =>
+        address && typeof address === "object" ? resolve(address.port) : reject(new Error("No free port found."))
+      );
+    });
+  });
+}
+
+function getWebPreviewHtml(webview: vscode.Webview, url: string): string {
+  const escape = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+  const presetOptions = VIEWPORT_PRESETS.map(
+    (preset) =>
+      `<option value="${escape(preset.label)}">${escape(preset.label)}${
+        preset.width ? ` (${preset.width}×${preset.height})` : ""
+      }</option>`
+  ).join("");
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; frame-src http: https:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'unsafe-inline';" />
+    <title>Flutter Web Preview</title>
+    <style>
+      html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: 12px; }
+      .toolbar { display: flex; gap: 8px; align-items: center; height: 32px; padding: 0 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+      .toolbar .url { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; opacity: 0.8; }
+      select, button { padding: 2px 8px; background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: 1px solid transparent; cursor: pointer; }
+      .status { white-space: nowrap; }
+      .status.running::before { content: "● "; color: var(--vscode-testing-iconPassed); }
+      .status.starting::before, .status.reloading::before { content: "● "; color: var(--vscode-charts-yellow); }
+      .status.stopped::before { content: "● "; color: var(--vscode-testing-iconFailed); }
+      #stage { position: relative; height: calc(100% - 33px); overflow: hidden; display: flex; align-items: center; justify-content: center; background: var(--vscode-editorWidget-background); }
+      #frame { border: 0; background: white; transform-origin: center center; }
+      #stage.device #frame { border-radius: 12px; box-shadow: 0 0 0 10px #222, 0 4px 24px rgba(0, 0, 0, 0.5); }
+    </style>
+  </head>
+  <body>
+    <div class="toolbar">
+      <span id="status" class="status starting">Starting</span>
+      <select id="preset" title="Viewport">${presetOptions}</select>
+      <select id="dpr" title="Device pixel ratio">
+        <option value="1">1x</option><option value="2">2x</option><option value="2.625">2.625x</option><option value="3">3x</option>
+      </select>
+      <button id="rotate" title="Rotate">⟳ Rotate</button>
+      <button id="reload" title="Reload">Reload</button>
+      <span class="url" title="${escape(url)}">${escape(url)}</span>
+      <button id="external" title="Open in browser">Open in Browser</button>
+    </div>
+    <div id="stage"><iframe id="frame" src="${escape(url)}" allow="clipboard-read; clipboard-write"></iframe></div>
+    <script>
+      const vscode = acquireVsCodeApi();
+      const presets = ${JSON.stringify(VIEWPORT_PRESETS)};
+      const frame = document.getElementById('frame');
+      const stage = document.getElementById('stage');
+      const presetSelect = document.getElementById('preset');
+      const dprSelect = document.getElementById('dpr');
+      let viewport = { preset: 'Responsive', devicePixelRatio: 1, rotated: false };
+
+      function layout() {
+        const preset = presets.find((item) => item.label === viewport.preset) || presets[0];
+        stage.classList.toggle('device', preset.width > 0);
+        if (!preset.width) {
+          Object.assign(frame.style, { width: '100%', height: '100%', zoom: '', transform: '' });
+          return;
+        }
+        const width = viewport.rotated ? preset.height : preset.width;
+        const height = viewport.rotated ? preset.width : preset.height;
+        // CSS zoom on the frame gives its content the chosen devicePixelRatio at the same logical size;
+        // the transform then scales the result to fit the panel.
+        const zoom = viewport.devicePixelRatio / window.devicePixelRatio;
+        const fit = Math.min(1, (stage.clientWidth - 40) / (width * zoom), (stage.clientHeight - 40) / (height * zoom));
+        Object.assign(frame.style, { width: width + 'px', height: height + 'px', zoom: String(zoom), transform: 'scale(' + fit + ')' });
+      }
+
+      function update(next) {
+        viewport = Object.assign({}, viewport, next);
+        presetSelect.value = viewport.preset;
+        dprSelect.value = String(viewport.devicePixelRatio);
+        layout();
+      }
+
+      presetSelect.addEventListener('change', () => {
+        const preset = presets.find((item) => item.label === presetSelect.value);
+        update({ preset: presetSelect.value, devicePixelRatio: preset ? preset.devicePixelRatio : 1 });
+        vscode.postMessage({ type: 'viewport', viewport });
+      });
+      dprSelect.addEventListener('change', () => {
+        update({ devicePixelRatio: Number(dprSelect.value) });
+        vscode.postMessage({ type: 'viewport', viewport });
+      });
+      document.getElementById('rotate').addEventListener('click', () => {
+        update({ rotated: !viewport.rotated });
+        vscode.postMessage({ type: 'viewport', viewport });
+      });
+      document.getElementById('reload').addEventListener('click', () => { frame.src = frame.src; });
+      document.getElementById('external').addEventListener('click', () => vscode.postMessage({ type: 'openExternal' }));
+      window.addEventListener('resize', layout);
+      window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (message.type === 'state') {
+          update(message.viewport);
+          const status = document.getElementById('status');
+          const labels = { starting: 'Starting', running: 'Running', reloading: 'Reloading', stopped: 'Stopped' };
+          status.className = 'status ' + message.status.status;
+          status.textContent = labels[message.status.status] + (message.status.detail ? ': ' + message.status.detail : '');
+        } else if (message.type === 'reload') {
+          frame.src = frame.src;
+        }
+      });
+      vscode.postMessage({ type: 'ready' });
+    </script>
+  </body>
+</html>`;
+}